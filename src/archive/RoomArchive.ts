@@ -0,0 +1,220 @@
+import { randomUUID } from 'crypto';
+import { Room, RoomActivity, RoomRole } from '../types/Room';
+import { ArchiveStore, ArchiveEntry, ArchiveChapter, ArchiveMedia } from '../types/Archive';
+import { MemoryArchiveStore } from '../store/MemoryArchiveStore';
+
+/**
+ * Configuration for the RoomArchive
+ */
+export interface RoomArchiveOptions {
+  /** Where closed rooms are archived, defaults to process memory */
+  store?: ArchiveStore;
+  /** Reactions within the spike window that make a reaction spike */
+  reactionSpikeThreshold?: number;
+  /** Window (ms) reactions are counted over to detect a spike */
+  reactionSpikeWindowMs?: number;
+  /** Stage changes closer than this (ms) to a chapter's start are folded into it */
+  minChapterMs?: number;
+}
+
+/**
+ * Builds the chapter index of a room: a chapter starts whenever someone
+ * joins or leaves the stage
+ * @param entry - The archive entry, with a complete timeline
+ * @param minChapterMs - Minimum chapter length
+ * @returns The chapters in order
+ */
+const buildChapters = (entry: ArchiveEntry, minChapterMs: number): ArchiveChapter[] => {
+  const end = (entry.closedAt ?? Date.now()) - entry.startedAt;
+  const stage = new Set([entry.hostFid]);
+  const chapters: ArchiveChapter[] = [
+    { title: 'Opening', start: 0, end, speakers: [entry.hostFid], highlights: 0 }
+  ];
+
+  for (const event of entry.timeline) {
+    const offset = event.timestamp - entry.startedAt;
+    let current = chapters[chapters.length - 1];
+
+    if (event.type === 'reaction-spike') {
+      current.highlights++;
+      continue;
+    }
+
+    const fid = event.fid as string;
+    let title: string;
+    if (event.type === 'promoted' && !stage.has(fid)) {
+      stage.add(fid);
+      title = `${fid} joins the stage`;
+    } else if ((event.type === 'demoted' || event.type === 'left') && stage.delete(fid)) {
+      title = `${fid} leaves the stage`;
+    } else {
+      continue;
+    }
+
+    if (offset - current.start >= minChapterMs) {
+      current.end = offset;
+      current = { title, start: offset, end, speakers: [], highlights: 0 };
+      chapters.push(current);
+    }
+    current.speakers = Array.from(stage);
+  }
+  return chapters;
+};
+
+/**
+ * RoomArchive captures the timeline of every room while it is live and
+ * keeps it, with a generated chapter index and any attached audio, once the
+ * room has closed.
+ */
+export class RoomArchive {
+  private store: ArchiveStore;
+  private reactionSpikeThreshold: number;
+  private reactionSpikeWindowMs: number;
+  private minChapterMs: number;
+  private liveEntries: Map<string, ArchiveEntry> = new Map();
+
+  /**
+   * Creates a new instance of RoomArchive
+   * @param options - Store and timeline configuration
+   */
+  constructor(options: RoomArchiveOptions = {}) {
+    this.store = options.store ?? new MemoryArchiveStore();
+    this.reactionSpikeThreshold = options.reactionSpikeThreshold ?? 10;
+    this.reactionSpikeWindowMs = options.reactionSpikeWindowMs ?? 10 * 1000;
+    this.minChapterMs = options.minChapterMs ?? 60 * 1000;
+  }
+
+  /**
+   * Starts capturing the timeline of a room
+   * @param room - The room that opened
+   */
+  open(room: Room) {
+    this.liveEntries.set(room.id, {
+      roomId: room.id,
+      name: room.name,
+      tags: room.tags,
+      hostFid: room.hostFid,
+      visibility: room.visibility,
+      allowedFids: Array.from(room.allowedFids),
+      coHosts: [],
+      startedAt: Date.now(),
+      participants: [room.hostFid],
+      timeline: [],
+      chapters: [],
+      media: []
+    });
+  }
+
+  /**
+   * Adds a presence, stage or mute change to a live room's timeline
+   * @param activity - The change
+   */
+  recordActivity({ roomId, type, fid, timestamp }: RoomActivity) {
+    const entry = this.liveEntries.get(roomId);
+    if (!entry) return;
+
+    entry.timeline.push({ type, fid, timestamp });
+    if (!entry.participants.includes(fid)) entry.participants.push(fid);
+  }
+
+  /**
+   * Checks a room's recent reactions for a spike. A spike is recorded once
+   * per window and keeps counting the reactions sent while it lasts.
+   * @param room - The room that received a reaction
+   */
+  recordReactions(room: Room) {
+    const entry = this.liveEntries.get(room.id);
+    if (!entry) return;
+
+    const now = Date.now();
+    const recent = room.reactions.filter(reaction => now - reaction.timestamp < this.reactionSpikeWindowMs).length;
+    if (recent < this.reactionSpikeThreshold) return;
+
+    const lastSpike = [...entry.timeline].reverse().find(event => event.type === 'reaction-spike');
+    if (lastSpike && now - lastSpike.timestamp < this.reactionSpikeWindowMs) {
+      lastSpike.reactions = Math.max(lastSpike.reactions ?? 0, recent);
+      return;
+    }
+    entry.timeline.push({ type: 'reaction-spike', timestamp: now, reactions: recent });
+  }
+
+  /**
+   * Archives a room that closed, generating its chapter index
+   * @param room - The room that closed
+   * @returns The archive entry, or undefined if the room's timeline was not captured
+   */
+  async close(room: Room): Promise<ArchiveEntry | undefined> {
+    const entry = this.liveEntries.get(room.id);
+    if (!entry) return undefined;
+
+    entry.closedAt = Date.now();
+    entry.allowedFids = Array.from(room.allowedFids);
+    entry.closingHostFid = room.hostFid;
+    entry.coHosts = Array.from(room.coHosts);
+    entry.chapters = buildChapters(entry, this.minChapterMs);
+    await this.store.save(entry);
+    this.liveEntries.delete(room.id);
+    return entry;
+  }
+
+  /**
+   * Attaches an audio file to a live or archived room
+   * @param roomId - The ID of the room
+   * @param media - The file to attach
+   * @returns The attached media
+   * @throws Error if the room has no archive entry
+   */
+  async attachMedia(roomId: string, media: Omit<ArchiveMedia, 'id'>): Promise<ArchiveMedia> {
+    const live = this.liveEntries.get(roomId);
+    const entry = live ?? await this.store.get(roomId);
+    if (!entry) throw new Error('Archive entry not found');
+
+    const attached: ArchiveMedia = { id: randomUUID(), ...media };
+    entry.media.push(attached);
+    if (!live) await this.store.save(entry);
+    return attached;
+  }
+
+  /**
+   * Checks whether an archived room may be shown to a user. Public rooms are
+   * shown to everyone; other rooms to their participants and allowed users.
+   * @param entry - The archive entry
+   * @param fid - The FID of the user, if known
+   * @returns True if the entry may be shown
+   */
+  canView(entry: ArchiveEntry, fid?: string): boolean {
+    if (entry.visibility === 'public') return true;
+    return fid !== undefined
+      && (entry.hostFid === fid || entry.participants.includes(fid) || entry.allowedFids.includes(fid));
+  }
+
+  /**
+   * Returns the role a user held in an archived room when it closed. Only
+   * the host and co-hosts are kept; everyone else counts as a listener.
+   * @param entry - The archive entry
+   * @param fid - The FID of the user
+   * @returns The user's role
+   */
+  roleOf(entry: ArchiveEntry, fid: string): RoomRole {
+    if ((entry.closingHostFid ?? entry.hostFid) === fid) return 'host';
+    return entry.coHosts.includes(fid) ? 'co-host' : 'listener';
+  }
+
+  /**
+   * Lists archived rooms, most recently closed first
+   * @returns The archive entries
+   */
+  async list(): Promise<ArchiveEntry[]> {
+    const entries = await this.store.list();
+    return entries.sort((a, b) => (b.closedAt ?? 0) - (a.closedAt ?? 0));
+  }
+
+  /**
+   * Looks up an archived room
+   * @param roomId - The ID of the room
+   * @returns The archive entry, or undefined if the room was not archived
+   */
+  async get(roomId: string): Promise<ArchiveEntry | undefined> {
+    return this.store.get(roomId);
+  }
+}
@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs';
+import { AuditSink, AuditEntry, AuditQuery } from '../types/Audit';
+import { filterAuditEntries } from './filter';
+
+/**
+ * JsonlAuditSink appends the audit log to a file, one JSON entry per line.
+ * Appends are queued so entries keep their order.
+ */
+export class JsonlAuditSink implements AuditSink {
+  private lastAppend: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new instance of JsonlAuditSink
+   * @param filePath - Path of the JSONL file
+   */
+  constructor(private filePath: string) {}
+
+  /**
+   * Appends an entry to the file
+   * @param entry - The entry to append
+   */
+  append(entry: AuditEntry): Promise<void> {
+    const append = this.lastAppend.then(() => fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`));
+    this.lastAppend = append.catch(() => undefined);
+    return append;
+  }
+
+  /**
+   * Reads the entries of a room from the file, oldest first
+   * @param roomId - The ID of the room
+   * @param query - Optional filters
+   * @returns The matching entries
+   */
+  async query(roomId: string, query?: AuditQuery): Promise<AuditEntry[]> {
+    await this.lastAppend;
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries = contents.split('\n').filter(line => line.trim()).map(line => JSON.parse(line) as AuditEntry);
+    return filterAuditEntries(entries, roomId, query);
+  }
+}
@@ -0,0 +1,28 @@
+import { AuditSink, AuditEntry, AuditQuery } from '../types/Audit';
+import { filterAuditEntries } from './filter';
+
+/**
+ * MemoryAuditSink keeps the audit log in process memory. Nothing survives a
+ * restart; it is the default when no persistent sink is configured.
+ */
+export class MemoryAuditSink implements AuditSink {
+  private entries: AuditEntry[] = [];
+
+  /**
+   * Appends an entry to the log
+   * @param entry - The entry to append
+   */
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  /**
+   * Reads the entries of a room, oldest first
+   * @param roomId - The ID of the room
+   * @param query - Optional filters
+   * @returns The matching entries
+   */
+  async query(roomId: string, query?: AuditQuery): Promise<AuditEntry[]> {
+    return filterAuditEntries(this.entries, roomId, query);
+  }
+}
@@ -0,0 +1,19 @@
+import { AuditEntry, AuditQuery } from '../types/Audit';
+
+/**
+ * Picks the entries of a room that match a query
+ * @param entries - Entries in the order they were appended
+ * @param roomId - The ID of the room
+ * @param query - The filters to apply
+ * @returns The matching entries, oldest first
+ */
+export function filterAuditEntries(entries: AuditEntry[], roomId: string, query: AuditQuery = {}): AuditEntry[] {
+  const matching = entries.filter(entry =>
+    entry.roomId === roomId &&
+    (query.since === undefined || entry.timestamp >= query.since) &&
+    (query.until === undefined || entry.timestamp < query.until) &&
+    (query.action === undefined || entry.action === query.action) &&
+    (query.fid === undefined || entry.actorFid === query.fid || entry.targetFid === query.fid)
+  );
+  return query.limit === undefined ? matching : matching.slice(-query.limit);
+}
@@ -0,0 +1,28 @@
+import { Authenticator, AuthCredentials, AuthResult } from '../types/Auth';
+
+/**
+ * CompositeAuthenticator tries a list of authenticators in order and
+ * accepts the first one that verifies the credentials.
+ */
+export class CompositeAuthenticator implements Authenticator {
+  /**
+   * Creates a new instance of CompositeAuthenticator
+   * @param authenticators - The authenticators to try, in order
+   */
+  constructor(private authenticators: Authenticator[]) {}
+
+  /**
+   * Verifies credentials against each authenticator in turn
+   * @param credentials - The credentials presented by the client
+   * @returns The first successful result, or the last rejection
+   */
+  async authenticate(credentials: AuthCredentials): Promise<AuthResult> {
+    let result: AuthResult = { success: false, reason: 'No authenticator configured' };
+
+    for (const authenticator of this.authenticators) {
+      result = await authenticator.authenticate(credentials);
+      if (result.success) break;
+    }
+    return result;
+  }
+}
@@ -0,0 +1,96 @@
+import { KeyObject, createHash, createPublicKey, verify } from 'crypto';
+import { Authenticator, AuthCredentials, AuthResult } from '../types/Auth';
+
+/** How far ahead of the server's clock a message's `Issued At` may be */
+const CLOCK_SKEW_MS = 30 * 1000;
+
+/**
+ * SignedMessageAuthenticator verifies Sign-In-With-Farcaster style messages.
+ * The message must reference the claimed FID (`farcaster://fid/<fid>`), carry a
+ * recent `Issued At` timestamp and be signed with the Ed25519 custody key the
+ * server holds for that FID. Each signed message is accepted once; sign a new
+ * message (e.g. with a fresh `Nonce`) for every sign-in.
+ */
+export class SignedMessageAuthenticator implements Authenticator {
+  private custodyKeys: Map<string, KeyObject> = new Map();
+  /** Hashes of messages already accepted, mapped to when they stop being valid anyway */
+  private usedMessages: Map<string, number> = new Map();
+
+  /**
+   * Creates a new instance of SignedMessageAuthenticator
+   * @param custodyKeys - Map of FIDs to their public custody keys (PEM or KeyObject)
+   * @param maxAgeMs - Maximum age of a signed message before it is rejected
+   * @param domain - Optional domain the message must be issued for
+   */
+  constructor(
+    custodyKeys: Map<string, string | KeyObject>,
+    private maxAgeMs: number = 5 * 60 * 1000,
+    private domain?: string
+  ) {
+    custodyKeys.forEach((key, fid) => {
+      this.custodyKeys.set(fid, typeof key === 'string' ? createPublicKey(key) : key);
+    });
+  }
+
+  /**
+   * Verifies a signed message against the custody key of the claimed FID
+   * @param credentials - The credentials presented by the client
+   * @returns The authenticated user, or the reason the message was rejected
+   */
+  async authenticate({ fid, message, signature }: AuthCredentials): Promise<AuthResult> {
+    if (!fid || !message || !signature) {
+      return { success: false, reason: 'Missing signed message' };
+    }
+    if (typeof fid !== 'string' || typeof message !== 'string' || typeof signature !== 'string') {
+      return { success: false, reason: 'Malformed signed message' };
+    }
+
+    const key = this.custodyKeys.get(fid);
+    if (!key) {
+      return { success: false, reason: 'Unknown custody key' };
+    }
+
+    if (this.domain && !message.startsWith(`${this.domain} wants you to sign in`)) {
+      return { success: false, reason: 'Message issued for another domain' };
+    }
+
+    const messageFid = message.match(/farcaster:\/\/fid\/([^\s/]+)/)?.[1];
+    if (messageFid !== fid) {
+      return { success: false, reason: 'Message does not match fid' };
+    }
+
+    const issuedAt = Date.parse(message.match(/^Issued At: (.+)$/m)?.[1] ?? '');
+    if (Number.isNaN(issuedAt) || Date.now() - issuedAt > this.maxAgeMs) {
+      return { success: false, reason: 'Message expired' };
+    }
+    if (issuedAt > Date.now() + CLOCK_SKEW_MS) {
+      return { success: false, reason: 'Message issued in the future' };
+    }
+
+    const valid = verify(null, Buffer.from(message), key, Buffer.from(signature, 'base64'));
+    if (!valid) {
+      return { success: false, reason: 'Invalid signature' };
+    }
+
+    // Keyed on the message, as the same signature can be encoded in several ways
+    const digest = createHash('sha256').update(message).digest('hex');
+    this.pruneUsedMessages();
+    if (this.usedMessages.has(digest)) {
+      return { success: false, reason: 'Message already used' };
+    }
+    this.usedMessages.set(digest, issuedAt + this.maxAgeMs);
+
+    return { success: true, user: { fid } };
+  }
+
+  /**
+   * Forgets accepted messages that have expired, as they are refused anyway
+   * @private
+   */
+  private pruneUsedMessages() {
+    const now = Date.now();
+    this.usedMessages.forEach((expiresAt, digest) => {
+      if (expiresAt < now) this.usedMessages.delete(digest);
+    });
+  }
+}
@@ -0,0 +1,89 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Authenticator, AuthCredentials, AuthResult } from '../types/Auth';
+
+/**
+ * TokenAuthenticator verifies HS256 JSON Web Tokens signed with a shared secret.
+ * The token's `sub` claim must match the claimed FID.
+ */
+export class TokenAuthenticator implements Authenticator {
+  /**
+   * Creates a new instance of TokenAuthenticator
+   * @param secret - The shared HMAC secret
+   */
+  constructor(private secret: string) {}
+
+  /**
+   * Issues a signed token for a user
+   * @param fid - The FID the token is issued for
+   * @param expiresInSeconds - Lifetime of the token
+   * @returns The encoded token
+   */
+  issueToken(fid: string, expiresInSeconds: number = 3600): string {
+    const now = Math.floor(Date.now() / 1000);
+    const header = this.encode({ alg: 'HS256', typ: 'JWT' });
+    const payload = this.encode({ sub: fid, iat: now, exp: now + expiresInSeconds });
+    return `${header}.${payload}.${this.sign(`${header}.${payload}`)}`;
+  }
+
+  /**
+   * Verifies a token and its subject
+   * @param credentials - The credentials presented by the client
+   * @returns The authenticated user, or the reason the token was rejected
+   */
+  async authenticate({ fid, token }: AuthCredentials): Promise<AuthResult> {
+    if (!fid || !token) {
+      return { success: false, reason: 'Missing token' };
+    }
+    if (typeof fid !== 'string' || typeof token !== 'string') {
+      return { success: false, reason: 'Malformed token' };
+    }
+
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) {
+      return { success: false, reason: 'Malformed token' };
+    }
+
+    const expected = Buffer.from(this.sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return { success: false, reason: 'Invalid signature' };
+    }
+
+    let claims: { sub?: string; exp?: number };
+    try {
+      const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+      if (alg !== 'HS256') {
+        return { success: false, reason: 'Unsupported algorithm' };
+      }
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    } catch (error) {
+      return { success: false, reason: 'Malformed token' };
+    }
+
+    if (claims.sub !== fid) {
+      return { success: false, reason: 'Token does not match fid' };
+    }
+
+    if (typeof claims.exp === 'number' && claims.exp * 1000 < Date.now()) {
+      return { success: false, reason: 'Token expired' };
+    }
+
+    return { success: true, user: { fid } };
+  }
+
+  /**
+   * Encodes a JSON object as base64url
+   * @private
+   */
+  private encode(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+
+  /**
+   * Computes the HS256 signature of the signing input
+   * @private
+   */
+  private sign(input: string): string {
+    return createHmac('sha256', this.secret).update(input).digest('base64url');
+  }
+}
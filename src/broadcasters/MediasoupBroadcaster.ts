@@ -1,118 +1,373 @@
-import * as mediasoup from 'mediasoup';
 import { types } from 'mediasoup';
+import { EventEmitter } from 'events';
 import { User } from '../types/Room';
+import { TransportDirection, UserTransports, RoomMediaState, RecordingDestination, AudioLevel } from '../types/Media';
+import { WorkerPool, WorkerPoolOptions } from './WorkerPool';
+
+/** Readiness of the broadcaster's worker pool */
+export type BroadcasterState = 'idle' | 'initializing' | 'ready';
+
+/**
+ * Configuration for the MediasoupBroadcaster
+ */
+export interface MediasoupBroadcasterOptions extends WorkerPoolOptions {
+  /** Consumers a router may serve before listeners are fanned out to another router */
+  consumersPerRouter?: number;
+}
+
+/**
+ * Routers carrying a single room's media
+ */
+interface RoomRouters {
+  /** Router the speakers produce on */
+  origin: types.Router;
+  /** Routers on other workers that speakers' producers are piped to */
+  listeners: types.Router[];
+}
+
+/**
+ * Observers reporting who is talking in a room
+ */
+interface RoomObservers {
+  /** Reports the volume of the loudest speakers */
+  audioLevel: types.AudioLevelObserver;
+  /** Reports the dominant speaker */
+  activeSpeaker: types.ActiveSpeakerObserver;
+  /** FID of the current dominant speaker */
+  dominantFid?: string;
+  /** Timestamp since which the current dominant speaker has been dominant */
+  dominantSince: number;
+  /** Time (ms) each speaker has been dominant */
+  speakingTime: Map<string, number>;
+}
+
+const mediaCodecs: types.RtpCodecCapability[] = [
+  {
+    kind: 'audio',
+    mimeType: 'audio/opus',
+    clockRate: 48000,
+    channels: 2,
+    parameters: {},
+  }
+];
 
 /**
  * MediasoupBroadcaster handles WebRTC media transport and broadcasting functionality
  * using the mediasoup library. It manages media workers, routers, producers, and consumers
- * for real-time audio communication.
+ * for real-time audio communication. Every room gets its own router, placed on the
+ * least-loaded worker of the pool. Once a router serves more consumers than
+ * `consumersPerRouter`, new listeners are placed on listener routers that
+ * receive the speakers' producers through pipe transports.
+ *
+ * Every speaker's producer is registered with the room's audio level and
+ * active speaker observers.
+ *
+ * Emits `router-reset` with the room ID when a room's router had to be recreated
+ * after its worker died; clients in that room must renegotiate their media.
+ * Emits `audio-levels` with the room ID and the AudioLevels of the loudest
+ * speakers (empty on silence), and `active-speaker` with the room ID and the
+ * FID of the new dominant speaker.
  */
-export class MediasoupBroadcaster {
-  private worker!: types.Worker;
-  private router!: types.Router;
+export class MediasoupBroadcaster extends EventEmitter {
+  private pool: WorkerPool;
+  private state: BroadcasterState = 'idle';
+  private initPromise?: Promise<void>;
+  private consumersPerRouter: number;
+  private routers: Map<string, RoomRouters> = new Map();
   private producers: Map<string, types.Producer> = new Map();
   private consumers: Map<string, types.Consumer[]> = new Map();
   private transports: Map<string, types.WebRtcTransport> = new Map();
+  private userTransports: Map<string, UserTransports> = new Map();
+  private recordingTransports: Map<string, types.PlainTransport[]> = new Map();
+  private observers: Map<string, RoomObservers> = new Map();
 
   /**
-   * Initializes a new instance of MediasoupBroadcaster
-   * and sets up the mediasoup worker and router.
+   * Initializes a new instance of MediasoupBroadcaster.
+   * Call init() before using it.
+   * @param options - Worker pool and fan-out configuration
    */
-  constructor() {
-    this.initializeMediasoup();
+  constructor(options: MediasoupBroadcasterOptions = {}) {
+    super();
+    this.pool = new WorkerPool(options);
+    this.consumersPerRouter = options.consumersPerRouter ?? 500;
+    this.pool.on('worker-died', (routerIds: string[]) => this.handleLostRouters(routerIds));
   }
 
   /**
-   * Initializes the mediasoup worker and router with audio codec configuration
-   * @private
+   * Starts the mediasoup worker pool. Safe to call more than once.
    */
-  private async initializeMediasoup() {
-    this.worker = await mediasoup.createWorker({
-      logLevel: 'warn',
-      rtcMinPort: 40000,
-      rtcMaxPort: 49999,
-    });
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.state = 'initializing';
+      this.initPromise = this.pool.init().then(() => {
+        this.state = 'ready';
+      });
+    }
+    return this.initPromise;
+  }
 
-    const mediaCodecs: types.RtpCodecCapability[] = [
-      {
-        kind: 'audio',
-        mimeType: 'audio/opus',
-        clockRate: 48000,
-        channels: 2,
-        parameters: {},
-      }
-    ];
+  /**
+   * Returns the readiness state of the broadcaster
+   * @returns The current state
+   */
+  getState(): BroadcasterState {
+    return this.state;
+  }
 
-    this.router = await this.worker.createRouter({ mediaCodecs });
+  /**
+   * Creates the router that carries a room's media
+   * @param roomId - The ID of the room
+   * @throws Error if the broadcaster is not ready
+   */
+  async createRoomRouter(roomId: string) {
+    if (this.state !== 'ready') throw new Error('Media workers not ready');
+    if (this.routers.has(roomId)) return;
+
+    const origin = await this.pool.createRouter({ mediaCodecs });
+    this.routers.set(roomId, { origin, listeners: [] });
+    await this.createObservers(roomId, origin);
   }
 
   /**
-   * Creates a WebRTC transport for a user
+   * Closes a room's router along with every transport created on it
+   * @param roomId - The ID of the room
+   */
+  async closeRoomRouter(roomId: string) {
+    for (const [fid, userTransports] of this.userTransports) {
+      if (userTransports.roomId === roomId) await this.stopBroadcasting(fid);
+    }
+
+    this.closeRecordingTransports(roomId);
+    this.observers.delete(roomId);
+
+    const roomRouters = this.routers.get(roomId);
+    if (roomRouters) {
+      roomRouters.listeners.forEach(router => this.pool.releaseRouter(router));
+      this.pool.releaseRouter(roomRouters.origin);
+      this.routers.delete(roomId);
+    }
+  }
+
+  /**
+   * Describes which routers serve a room and which listeners each one carries
+   * @param roomId - The ID of the room
+   * @returns The room's media state, or undefined if the room has no router
+   */
+  getRoomMediaState(roomId: string): RoomMediaState | undefined {
+    const roomRouters = this.routers.get(roomId);
+    if (!roomRouters) return undefined;
+
+    const describe = (router: types.Router, role: 'origin' | 'listener') => {
+      const listeners = Array.from(this.userTransports.entries())
+        .filter(([, userTransports]) => userTransports.recvRouterId === router.id)
+        .map(([fid]) => fid);
+      return { routerId: router.id, role, consumers: this.countConsumers(router.id), listeners };
+    };
+
+    return {
+      roomId,
+      routers: [
+        describe(roomRouters.origin, 'origin'),
+        ...roomRouters.listeners.map(router => describe(router, 'listener'))
+      ]
+    };
+  }
+
+  /**
+   * Returns the RTP capabilities of a room's router so clients can load their device
+   * @param roomId - The ID of the room
+   * @returns The router's RTP capabilities
+   * @throws Error if the room has no router
+   */
+  getRouterCapabilities(roomId: string): types.RtpCapabilities {
+    return this.getRoomRouters(roomId).origin.rtpCapabilities;
+  }
+
+  /**
+   * Creates a WebRTC transport for a user. Each user holds at most one send
+   * and one receive transport; requesting another replaces the previous one,
+   * and creating one in a different room tears down the user's old media.
+   * Send transports live on the room's origin router; receive transports on
+   * the least-loaded router once the room has been fanned out.
    * @param user - The user for whom to create the transport
+   * @param roomId - The ID of the room the transport belongs to
+   * @param direction - Whether the transport sends or receives media
    * @returns Transport details including ID, ICE parameters, and DTLS parameters
+   * @throws Error if the room has no router
    */
-  async createTransport(_user: User) {
-    const transport = await this.router.createWebRtcTransport({
+  async createTransport(user: User, roomId: string, direction: TransportDirection = 'send') {
+    const roomRouters = this.getRoomRouters(roomId);
+
+    if (this.userTransports.get(user.fid)?.roomId !== roomId) {
+      await this.stopBroadcasting(user.fid);
+    }
+
+    const router = direction === 'send'
+      ? roomRouters.origin
+      : await this.assignListenerRouter(roomId, roomRouters);
+
+    const transport = await router.createWebRtcTransport({
       listenIps: [{ ip: '0.0.0.0', announcedIp: undefined }],
       enableUdp: true,
       enableTcp: true,
       preferUdp: true,
     });
 
+    const userTransports = this.userTransports.get(user.fid) ?? { roomId };
+    const previousId = userTransports[direction];
+    if (previousId && previousId !== transport.id) {
+      await this.closeTransport(previousId);
+    }
+
+    userTransports[direction] = transport.id;
+    if (direction === 'recv') userTransports.recvRouterId = router.id;
+    this.userTransports.set(user.fid, userTransports);
     this.transports.set(transport.id, transport);
     return {
       id: transport.id,
+      direction,
       iceParameters: transport.iceParameters,
       iceCandidates: transport.iceCandidates,
       dtlsParameters: transport.dtlsParameters,
     };
   }
 
+  /**
+   * Connects one of a user's transports using the DTLS parameters supplied by the client
+   * @param fid - The FID of the user
+   * @param transportId - The ID of the transport to connect
+   * @param dtlsParameters - The client's DTLS parameters
+   * @throws Error if transport is not found or does not belong to the user
+   */
+  async connectTransport(fid: string, transportId: string, dtlsParameters: types.DtlsParameters) {
+    const transport = this.transports.get(transportId);
+    const userTransports = this.userTransports.get(fid);
+    if (!transport || (userTransports?.send !== transportId && userTransports?.recv !== transportId)) {
+      throw new Error('Transport not found');
+    }
+
+    await transport.connect({ dtlsParameters });
+  }
+
+  /**
+   * Restarts ICE on one of a user's transports, e.g. after the client's network changed
+   * @param fid - The FID of the user
+   * @param transportId - The ID of the transport
+   * @returns The transport's new ICE parameters
+   * @throws Error if transport is not found or does not belong to the user
+   */
+  async restartIce(fid: string, transportId: string): Promise<types.IceParameters> {
+    const transport = this.transports.get(transportId);
+    const userTransports = this.userTransports.get(fid);
+    if (!transport || (userTransports?.send !== transportId && userTransports?.recv !== transportId)) {
+      throw new Error('Transport not found');
+    }
+
+    return transport.restartIce();
+  }
+
   /**
    * Handles the creation of a media producer for a user
    * @param user - The user producing media
    * @param transportId - The ID of the transport to use
    * @param rtpParameters - RTP parameters for the producer
    * @returns The ID of the created producer
-   * @throws Error if transport is not found
+   * @throws Error if transport is not found or is not the user's send transport
    */
   async handleProducer(user: User, transportId: string, rtpParameters: types.RtpParameters) {
     const transport = this.transports.get(transportId);
-    if (!transport) throw new Error('Transport not found');
+    const userTransports = this.userTransports.get(user.fid);
+    if (!transport || !userTransports || userTransports.send !== transportId) {
+      throw new Error('Transport not found');
+    }
 
     const producer = await transport.produce({
       kind: 'audio',
       rtpParameters,
     });
 
+    // A user only ever publishes a single audio track
+    this.producers.get(user.fid)?.close();
     this.producers.set(user.fid, producer);
+
+    const observers = this.observers.get(userTransports.roomId);
+    if (observers) {
+      await observers.audioLevel.addProducer({ producerId: producer.id });
+      await observers.activeSpeaker.addProducer({ producerId: producer.id });
+    }
+
+    const roomRouters = this.routers.get(userTransports.roomId);
+    if (roomRouters) {
+      for (const router of roomRouters.listeners) {
+        await roomRouters.origin.pipeToRouter({ producerId: producer.id, router });
+      }
+    }
     return producer.id;
   }
 
   /**
-   * Creates a media consumer for receiving audio from a producer
+   * Checks whether a user currently has an active producer
+   * @param fid - The FID of the user
+   * @returns True if the user is producing media
+   */
+  hasProducer(fid: string): boolean {
+    return this.producers.has(fid);
+  }
+
+  /**
+   * Returns the speaker of a room who is currently dominant
+   * @param roomId - The ID of the room
+   * @returns The FID of the active speaker, or undefined if nobody is publishing
+   */
+  getActiveSpeaker(roomId: string): string | undefined {
+    const fid = this.observers.get(roomId)?.dominantFid;
+    return fid && this.producers.has(fid) ? fid : undefined;
+  }
+
+  /**
+   * Returns how long each speaker of a room has been the dominant speaker
+   * @param roomId - The ID of the room
+   * @returns Milliseconds of dominance per speaker FID
+   */
+  getSpeakingTime(roomId: string): Record<string, number> {
+    const observers = this.observers.get(roomId);
+    if (!observers) return {};
+
+    const speakingTime = Object.fromEntries(observers.speakingTime);
+    if (observers.dominantFid) {
+      speakingTime[observers.dominantFid] = (speakingTime[observers.dominantFid] ?? 0) + Date.now() - observers.dominantSince;
+    }
+    return speakingTime;
+  }
+
+  /**
+   * Creates a media consumer for receiving audio from a producer. The consumer is
+   * attached to the consuming user's receive transport and starts paused until
+   * the client calls resumeConsumer.
    * @param consumerFid - The FID of the consuming user
    * @param producerFid - The FID of the producing user
+   * @param rtpCapabilities - The consuming device's RTP capabilities
    * @returns Consumer details including transport ID, consumer ID, and RTP parameters
-   * @throws Error if producer is not found
+   * @throws Error if the producer or receive transport is not found, or the capabilities are incompatible
    */
-  async createConsumer(consumerFid: string, producerFid: string) {
+  async createConsumer(consumerFid: string, producerFid: string, rtpCapabilities: types.RtpCapabilities) {
     const producer = this.producers.get(producerFid);
     if (!producer) throw new Error('Producer not found');
 
-    const transport = await this.router.createWebRtcTransport({
-      listenIps: [{ ip: '0.0.0.0', announcedIp: undefined }],
-      enableUdp: true,
-      enableTcp: true,
-      preferUdp: true,
-    });
+    const userTransports = this.userTransports.get(consumerFid);
+    const transport = userTransports?.recv ? this.transports.get(userTransports.recv) : undefined;
+    if (!userTransports || !transport) throw new Error('Receive transport not found');
 
-    this.transports.set(transport.id, transport);
+    const router = this.getRoomRoutersList(userTransports.roomId)
+      .find(candidate => candidate.id === userTransports.recvRouterId);
+    if (!router?.canConsume({ producerId: producer.id, rtpCapabilities })) {
+      throw new Error('Incompatible RTP capabilities');
+    }
 
     const consumer = await transport.consume({
       producerId: producer.id,
-      rtpCapabilities: this.router.rtpCapabilities,
-      paused: false,
+      rtpCapabilities,
+      paused: true,
     });
 
     if (!this.consumers.has(consumerFid)) {
@@ -120,9 +375,14 @@ export class MediasoupBroadcaster {
     }
     this.consumers.get(consumerFid)?.push(consumer);
 
+    consumer.on('producerclose', () => {
+      this.removeConsumer(consumerFid, consumer.id);
+    });
+
     return {
       transportId: transport.id,
       consumerId: consumer.id,
+      producerId: producer.id,
       kind: consumer.kind,
       rtpParameters: consumer.rtpParameters,
       type: consumer.type,
@@ -130,6 +390,84 @@ export class MediasoupBroadcaster {
     };
   }
 
+  /**
+   * Sends a speaker's audio as plain RTP to a local recorder. The consumer
+   * lives on its own plain transport on the room's origin router and closes
+   * with the speaker's producer.
+   * @param roomId - The ID of the room
+   * @param producerFid - The FID of the speaker
+   * @param destination - Address the recorder listens on
+   * @returns The consumer's ID and RTP parameters
+   * @throws Error if the room has no router or the speaker has no producer
+   */
+  async createRecordingConsumer(roomId: string, producerFid: string, destination: RecordingDestination) {
+    const producer = this.producers.get(producerFid);
+    if (!producer) throw new Error('Producer not found');
+
+    const { origin } = this.getRoomRouters(roomId);
+    const transport = await origin.createPlainTransport({
+      listenIp: { ip: '127.0.0.1' },
+      rtcpMux: true,
+      comedia: false,
+    });
+    await transport.connect({ ip: destination.ip, port: destination.port });
+
+    const consumer = await transport.consume({
+      producerId: producer.id,
+      rtpCapabilities: origin.rtpCapabilities,
+    });
+    consumer.on('producerclose', () => transport.close());
+
+    if (!this.recordingTransports.has(roomId)) {
+      this.recordingTransports.set(roomId, []);
+    }
+    this.recordingTransports.get(roomId)?.push(transport);
+
+    return {
+      consumerId: consumer.id,
+      rtpParameters: consumer.rtpParameters,
+    };
+  }
+
+  /**
+   * Stops sending a room's audio to its recorders
+   * @param roomId - The ID of the room
+   */
+  closeRecordingTransports(roomId: string) {
+    this.recordingTransports.get(roomId)?.forEach(transport => transport.close());
+    this.recordingTransports.delete(roomId);
+  }
+
+  /**
+   * Resumes a paused consumer once the client is ready to receive media
+   * @param consumerFid - The FID of the consuming user
+   * @param consumerId - The ID of the consumer to resume
+   * @throws Error if consumer is not found
+   */
+  async resumeConsumer(consumerFid: string, consumerId: string) {
+    const consumer = this.consumers.get(consumerFid)?.find(c => c.id === consumerId);
+    if (!consumer) throw new Error('Consumer not found');
+
+    await consumer.resume();
+  }
+
+  /**
+   * Closes a single consumer and drops it from the user's consumer list
+   * @private
+   * @param consumerFid - The FID of the consuming user
+   * @param consumerId - The ID of the consumer to remove
+   */
+  private removeConsumer(consumerFid: string, consumerId: string) {
+    const consumers = this.consumers.get(consumerFid);
+    if (!consumers) return;
+
+    const index = consumers.findIndex(c => c.id === consumerId);
+    if (index !== -1) {
+      consumers[index].close();
+      consumers.splice(index, 1);
+    }
+  }
+
   /**
    * Toggles the mute state of a user's audio producer
    * @param fid - The FID of the user
@@ -161,6 +499,19 @@ export class MediasoupBroadcaster {
     }
   }
 
+  /**
+   * Closes a user's audio producer, e.g. once they left the stage, while
+   * their transports and consumers stay open for listening
+   * @param fid - The FID of the user
+   */
+  async stopProducing(fid: string) {
+    const producer = this.producers.get(fid);
+    if (producer) {
+      await producer.close();
+      this.producers.delete(fid);
+    }
+  }
+
   /**
    * Stops all broadcasting activity for a user and cleans up resources
    * @param fid - The FID of the user
@@ -177,5 +528,165 @@ export class MediasoupBroadcaster {
       consumers.forEach(consumer => consumer.close());
       this.consumers.delete(fid);
     }
+
+    const userTransports = this.userTransports.get(fid);
+    if (userTransports) {
+      for (const transportId of new Set([userTransports.send, userTransports.recv])) {
+        if (transportId) await this.closeTransport(transportId);
+      }
+      this.userTransports.delete(fid);
+    }
+  }
+
+  /**
+   * Creates the audio level and active speaker observers of a room's origin router
+   * @private
+   * @param roomId - The ID of the room
+   * @param origin - The room's origin router
+   */
+  private async createObservers(roomId: string, origin: types.Router) {
+    const audioLevel = await origin.createAudioLevelObserver({ maxEntries: 10, threshold: -70, interval: 200 });
+    const activeSpeaker = await origin.createActiveSpeakerObserver({ interval: 300 });
+    const observers: RoomObservers = { audioLevel, activeSpeaker, dominantSince: Date.now(), speakingTime: new Map() };
+    this.observers.set(roomId, observers);
+
+    audioLevel.on('volumes', volumes => {
+      const levels: AudioLevel[] = [];
+      volumes.forEach(({ producer, volume }) => {
+        const fid = this.findProducerFid(producer.id);
+        if (fid) levels.push({ fid, volume });
+      });
+      this.emit('audio-levels', roomId, levels);
+    });
+    audioLevel.on('silence', () => this.emit('audio-levels', roomId, []));
+
+    activeSpeaker.on('dominantspeaker', ({ producer }) => {
+      const fid = this.findProducerFid(producer.id);
+      if (!fid || fid === observers.dominantFid) return;
+
+      const now = Date.now();
+      if (observers.dominantFid) {
+        const total = observers.speakingTime.get(observers.dominantFid) ?? 0;
+        observers.speakingTime.set(observers.dominantFid, total + now - observers.dominantSince);
+      }
+      observers.dominantFid = fid;
+      observers.dominantSince = now;
+      this.emit('active-speaker', roomId, fid);
+    });
+  }
+
+  /**
+   * Finds the user a producer belongs to
+   * @private
+   * @param producerId - The ID of the producer
+   * @returns The FID of the producing user, or undefined if the producer is gone
+   */
+  private findProducerFid(producerId: string): string | undefined {
+    for (const [fid, producer] of this.producers) {
+      if (producer.id === producerId) return fid;
+    }
+    return undefined;
+  }
+
+  /**
+   * Looks up the routers of a room
+   * @private
+   * @param roomId - The ID of the room
+   * @returns The room's routers
+   * @throws Error if the room has no router
+   */
+  private getRoomRouters(roomId: string): RoomRouters {
+    const roomRouters = this.routers.get(roomId);
+    if (!roomRouters) throw new Error('Router not found');
+    return roomRouters;
+  }
+
+  /**
+   * Lists every router of a room, origin first
+   * @private
+   * @param roomId - The ID of the room
+   * @returns The room's routers, or an empty list if the room has none
+   */
+  private getRoomRoutersList(roomId: string): types.Router[] {
+    const roomRouters = this.routers.get(roomId);
+    return roomRouters ? [roomRouters.origin, ...roomRouters.listeners] : [];
+  }
+
+  /**
+   * Counts the consumers attached to receive transports on a router
+   * @private
+   * @param routerId - The ID of the router
+   * @returns Number of consumers served by the router
+   */
+  private countConsumers(routerId: string): number {
+    let count = 0;
+    this.userTransports.forEach((userTransports, fid) => {
+      if (userTransports.recvRouterId === routerId) {
+        count += this.consumers.get(fid)?.length ?? 0;
+      }
+    });
+    return count;
+  }
+
+  /**
+   * Picks the router a new listener's receive transport is placed on. Listeners
+   * stay on the origin router until it is full; from then on they go to the
+   * least-loaded listener router, and a new one is added when all are full.
+   * @private
+   * @param roomId - The ID of the room
+   * @param roomRouters - The room's routers
+   * @returns The router to create the receive transport on
+   */
+  private async assignListenerRouter(roomId: string, roomRouters: RoomRouters): Promise<types.Router> {
+    if (roomRouters.listeners.length === 0 && this.countConsumers(roomRouters.origin.id) < this.consumersPerRouter) {
+      return roomRouters.origin;
+    }
+
+    const leastLoaded = roomRouters.listeners.reduce<types.Router | undefined>((best, router) =>
+      !best || this.countConsumers(router.id) < this.countConsumers(best.id) ? router : best, undefined);
+    if (leastLoaded && this.countConsumers(leastLoaded.id) < this.consumersPerRouter) {
+      return leastLoaded;
+    }
+
+    const router = await this.pool.createRouter({ mediaCodecs }, this.getRoomRoutersList(roomId).map(r => r.id));
+    roomRouters.listeners.push(router);
+
+    for (const [fid, userTransports] of this.userTransports) {
+      const producer = this.producers.get(fid);
+      if (producer && userTransports.roomId === roomId) {
+        await roomRouters.origin.pipeToRouter({ producerId: producer.id, router });
+      }
+    }
+    return router;
+  }
+
+  /**
+   * Recreates the routers of rooms whose worker died. Media state of the
+   * affected users is dropped; they renegotiate after `router-reset`.
+   * @private
+   * @param routerIds - IDs of the routers that were lost
+   */
+  private async handleLostRouters(routerIds: string[]) {
+    const affectedRooms = Array.from(this.routers.keys())
+      .filter(roomId => this.getRoomRoutersList(roomId).some(router => routerIds.includes(router.id)));
+
+    for (const roomId of affectedRooms) {
+      for (const [fid, userTransports] of this.userTransports) {
+        if (userTransports.roomId === roomId) await this.stopBroadcasting(fid);
+      }
+
+      this.closeRecordingTransports(roomId);
+      this.observers.delete(roomId);
+      this.getRoomRoutersList(roomId)
+        .filter(router => !routerIds.includes(router.id))
+        .forEach(router => this.pool.releaseRouter(router));
+      this.routers.delete(roomId);
+      try {
+        await this.createRoomRouter(roomId);
+        this.emit('router-reset', roomId);
+      } catch (error) {
+        console.error(`Failed to recreate router for room ${roomId}`, error);
+      }
+    }
   }
-}
\ No newline at end of file
+}
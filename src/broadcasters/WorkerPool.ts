@@ -0,0 +1,134 @@
+import * as mediasoup from 'mediasoup';
+import { types } from 'mediasoup';
+import { EventEmitter } from 'events';
+import { cpus } from 'os';
+
+/**
+ * Configuration for the mediasoup worker pool
+ */
+export interface WorkerPoolOptions {
+  /** Number of workers to run, defaults to the number of CPU cores */
+  numWorkers?: number;
+  /** Lowest RTC port the workers may bind */
+  rtcMinPort?: number;
+  /** Highest RTC port the workers may bind */
+  rtcMaxPort?: number;
+}
+
+/**
+ * WorkerPool runs a fixed number of mediasoup workers and places routers on
+ * the least-loaded one. A worker that dies is replaced in the same slot and a
+ * `worker-died` event is emitted with the IDs of the routers that were lost.
+ */
+export class WorkerPool extends EventEmitter {
+  private workers: types.Worker[] = [];
+  private routerSlots: Map<string, number> = new Map();
+  private numWorkers: number;
+
+  /**
+   * Creates a new instance of WorkerPool
+   * @param options - Pool configuration
+   */
+  constructor(private options: WorkerPoolOptions = {}) {
+    super();
+    this.numWorkers = Math.max(1, options.numWorkers ?? cpus().length);
+  }
+
+  /**
+   * Starts all workers in the pool
+   */
+  async init() {
+    for (let slot = 0; slot < this.numWorkers; slot++) {
+      this.workers[slot] = await this.createWorker(slot);
+    }
+  }
+
+  /**
+   * Creates a router on the least-loaded worker
+   * @param options - Router options including media codecs
+   * @param avoidRouterIds - Routers whose workers should be skipped if another worker is available
+   * @returns The created router
+   * @throws Error if the pool has not been initialized
+   */
+  async createRouter(options: types.RouterOptions, avoidRouterIds: string[] = []): Promise<types.Router> {
+    const avoidSlots = avoidRouterIds.map(routerId => this.routerSlots.get(routerId));
+    const slot = this.leastLoadedSlot(avoidSlots) ?? this.leastLoadedSlot();
+    if (slot === undefined) throw new Error('Worker pool not initialized');
+
+    const router = await this.workers[slot].createRouter(options);
+    this.routerSlots.set(router.id, slot);
+    return router;
+  }
+
+  /**
+   * Closes a router and releases its worker capacity
+   * @param router - The router to close
+   */
+  releaseRouter(router: types.Router) {
+    this.routerSlots.delete(router.id);
+    router.close();
+  }
+
+  /**
+   * Returns the number of routers hosted on each worker
+   * @returns Router count per worker slot
+   */
+  getLoad(): number[] {
+    const load = this.workers.map(() => 0);
+    this.routerSlots.forEach(slot => load[slot]++);
+    return load;
+  }
+
+  /**
+   * Closes every worker in the pool
+   */
+  close() {
+    this.workers.forEach(worker => worker.close());
+    this.workers = [];
+    this.routerSlots.clear();
+  }
+
+  /**
+   * Finds the worker slot hosting the fewest routers
+   * @private
+   * @param excludedSlots - Slots that must not be picked
+   * @returns The slot index, or undefined if no worker is eligible
+   */
+  private leastLoadedSlot(excludedSlots: Array<number | undefined> = []): number | undefined {
+    const load = this.getLoad();
+    let best: number | undefined;
+    load.forEach((count, slot) => {
+      if (excludedSlots.includes(slot)) return;
+      if (best === undefined || count < load[best]) best = slot;
+    });
+    return best;
+  }
+
+  /**
+   * Creates a worker for a slot and replaces it if it dies
+   * @private
+   * @param slot - The slot index of the worker
+   */
+  private async createWorker(slot: number): Promise<types.Worker> {
+    const worker = await mediasoup.createWorker({
+      logLevel: 'warn',
+      rtcMinPort: this.options.rtcMinPort ?? 40000,
+      rtcMaxPort: this.options.rtcMaxPort ?? 49999,
+    });
+
+    worker.on('died', async (error) => {
+      console.error(`mediasoup worker ${worker.pid} died`, error);
+
+      const lostRouterIds: string[] = [];
+      this.routerSlots.forEach((routerSlot, routerId) => {
+        if (routerSlot === slot) lostRouterIds.push(routerId);
+      });
+      lostRouterIds.forEach(routerId => this.routerSlots.delete(routerId));
+
+      this.workers[slot] = await this.createWorker(slot);
+      this.emit('worker-died', lostRouterIds);
+    });
+
+    return worker;
+  }
+}
@@ -0,0 +1,32 @@
+import { MessageFilter, MessageFilterResult } from '../types/Chat';
+
+/**
+ * BlocklistMessageFilter rejects chat messages containing any of a list of
+ * blocked words, matched as whole words regardless of case.
+ */
+export class BlocklistMessageFilter implements MessageFilter {
+  private blockedWords: Set<string>;
+
+  /**
+   * Creates a new instance of BlocklistMessageFilter
+   * @param blockedWords - The words that may not appear in a message
+   */
+  constructor(blockedWords: string[]) {
+    this.blockedWords = new Set(blockedWords.map(word => word.trim().toLowerCase()).filter(Boolean));
+  }
+
+  /**
+   * Rejects a message if one of its words is blocked
+   * @param _roomId - The ID of the room
+   * @param _fid - The FID of the sender
+   * @param text - The text of the message
+   * @returns The unchanged text, or the reason the message was rejected
+   */
+  async check(_roomId: string, _fid: string, text: string): Promise<MessageFilterResult> {
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}']+/u);
+    if (words.some(word => this.blockedWords.has(word))) {
+      return { allowed: false, reason: 'Message contains blocked words' };
+    }
+    return { allowed: true, text };
+  }
+}
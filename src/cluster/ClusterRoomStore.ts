@@ -0,0 +1,51 @@
+import { RoomStore, StoredRoom } from '../types/Store';
+import { SharedStateStore } from '../types/Cluster';
+
+const ROOM_PREFIX = 'room:';
+
+/**
+ * ClusterRoomStore keeps rooms in the cluster's shared state so that every
+ * node sees every room, together with the node that owns it.
+ */
+export class ClusterRoomStore implements RoomStore {
+  /**
+   * Creates a new instance of ClusterRoomStore
+   * @param state - The cluster's shared state store
+   */
+  constructor(private state: SharedStateStore) {}
+
+  /**
+   * Loads the rooms of every node
+   * @returns The stored rooms
+   */
+  async load(): Promise<StoredRoom[]> {
+    const values = await this.state.list(ROOM_PREFIX);
+    return values.map(value => JSON.parse(value) as StoredRoom);
+  }
+
+  /**
+   * Loads a single room
+   * @param roomId - The ID of the room
+   * @returns The stored room, or undefined if it does not exist
+   */
+  async get(roomId: string): Promise<StoredRoom | undefined> {
+    const value = await this.state.get(`${ROOM_PREFIX}${roomId}`);
+    return value ? JSON.parse(value) as StoredRoom : undefined;
+  }
+
+  /**
+   * Inserts or replaces a room
+   * @param room - The room to store
+   */
+  async save(room: StoredRoom): Promise<void> {
+    await this.state.set(`${ROOM_PREFIX}${room.id}`, JSON.stringify(room));
+  }
+
+  /**
+   * Removes a room
+   * @param roomId - The ID of the room to remove
+   */
+  async delete(roomId: string): Promise<void> {
+    await this.state.delete(`${ROOM_PREFIX}${roomId}`);
+  }
+}
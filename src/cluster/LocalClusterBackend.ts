@@ -0,0 +1,105 @@
+import { PubSub, SharedStateStore } from '../types/Cluster';
+
+/**
+ * LocalClusterBackend is an in-process stand-in for a shared store and
+ * pub/sub broker. Several SocketServer instances in the same process can
+ * share one to behave like a cluster; messages are delivered asynchronously
+ * as they would be over the network.
+ */
+export class LocalClusterBackend implements SharedStateStore, PubSub {
+  private values: Map<string, string> = new Map();
+  private channels: Map<string, Array<(message: string) => void>> = new Map();
+
+  /**
+   * Returns a view of the backend for one node, so that unsubscribing only
+   * drops that node's handlers
+   * @returns A pub/sub client bound to a single node
+   */
+  connect(): PubSub {
+    const subscriptions: Array<[string, (message: string) => void]> = [];
+    return {
+      publish: (channel, message) => this.publish(channel, message),
+      subscribe: async (channel, handler) => {
+        subscriptions.push([channel, handler]);
+        await this.subscribe(channel, handler);
+      },
+      unsubscribe: async (channel) => {
+        subscriptions
+          .filter(([subscribed]) => subscribed === channel)
+          .forEach(([, handler]) => this.removeHandler(channel, handler));
+      }
+    };
+  }
+
+  /**
+   * Reads a value
+   * @param key - The key to read
+   * @returns The stored value, or undefined if the key is not set
+   */
+  async get(key: string): Promise<string | undefined> {
+    return this.values.get(key);
+  }
+
+  /**
+   * Writes a value
+   * @param key - The key to write
+   * @param value - The value to store
+   */
+  async set(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  /**
+   * Removes a value
+   * @param key - The key to remove
+   */
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+
+  /**
+   * Reads every value whose key starts with a prefix
+   * @param prefix - The key prefix
+   * @returns The matching values
+   */
+  async list(prefix: string): Promise<string[]> {
+    return Array.from(this.values.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, value]) => value);
+  }
+
+  /**
+   * Publishes a message to every subscriber of a channel
+   * @param channel - The channel name
+   * @param message - The message to publish
+   */
+  async publish(channel: string, message: string): Promise<void> {
+    const handlers = this.channels.get(channel) ?? [];
+    setImmediate(() => handlers.forEach(handler => handler(message)));
+  }
+
+  /**
+   * Subscribes to a channel
+   * @param channel - The channel name
+   * @param handler - Called with every message published on the channel
+   */
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    this.channels.set(channel, [...(this.channels.get(channel) ?? []), handler]);
+  }
+
+  /**
+   * Removes every subscription to a channel
+   * @param channel - The channel name
+   */
+  async unsubscribe(channel: string): Promise<void> {
+    this.channels.delete(channel);
+  }
+
+  /**
+   * Drops a single handler from a channel
+   * @private
+   */
+  private removeHandler(channel: string, handler: (message: string) => void) {
+    this.channels.set(channel, (this.channels.get(channel) ?? []).filter(h => h !== handler));
+  }
+}
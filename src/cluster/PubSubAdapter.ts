@@ -0,0 +1,60 @@
+import {
+  ClusterAdapterWithHeartbeat,
+  ClusterAdapterOptions,
+  ClusterMessage,
+  ClusterResponse,
+  ServerId
+} from 'socket.io-adapter';
+import { Namespace } from 'socket.io';
+import { PubSub } from '../types/Cluster';
+
+/**
+ * Socket.IO adapter that relays broadcasts, room membership changes and
+ * server-side emits to the other nodes of the cluster over a PubSub channel.
+ */
+class PubSubAdapter extends ClusterAdapterWithHeartbeat {
+  private channel: string;
+  private responseChannel: string;
+
+  /**
+   * Creates a new instance of PubSubAdapter
+   * @param nsp - The namespace the adapter serves
+   * @param pubsub - The channel connecting the nodes
+   * @param opts - Heartbeat configuration
+   */
+  constructor(nsp: Namespace, private pubsub: PubSub, opts: ClusterAdapterOptions) {
+    super(nsp, opts);
+    this.channel = `socket.io#${nsp.name}`;
+    this.responseChannel = `socket.io-response#${nsp.name}#${this.uid}`;
+
+    this.pubsub.subscribe(this.channel, message => this.onMessage(JSON.parse(message)));
+    this.pubsub.subscribe(this.responseChannel, message => this.onResponse(JSON.parse(message)));
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<string> {
+    await this.pubsub.publish(this.channel, JSON.stringify(message));
+    return '';
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+    await this.pubsub.publish(`socket.io-response#${this.nsp.name}#${requesterUid}`, JSON.stringify(response));
+  }
+
+  close() {
+    super.close();
+    this.pubsub.unsubscribe(this.channel);
+    this.pubsub.unsubscribe(this.responseChannel);
+  }
+}
+
+/**
+ * Creates a Socket.IO adapter constructor bound to a PubSub channel
+ * @param pubsub - The channel connecting the nodes
+ * @param opts - Heartbeat configuration
+ * @returns An adapter constructor to pass to `io.adapter()`
+ */
+export function createPubSubAdapter(pubsub: PubSub, opts: ClusterAdapterOptions = {}) {
+  return function (nsp: Namespace) {
+    return new PubSubAdapter(nsp, pubsub, opts);
+  };
+}
@@ -7,10 +7,25 @@
 import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
 import { SocketServer } from './server/SocketServer';
+import { Authenticator, AuthResult } from './types/Auth';
+import { CompositeAuthenticator } from './auth/CompositeAuthenticator';
+import { SignedMessageAuthenticator } from './auth/SignedMessageAuthenticator';
+import { TokenAuthenticator } from './auth/TokenAuthenticator';
+import { FileRoomStore } from './store/FileRoomStore';
+import { FileArchiveStore } from './store/FileArchiveStore';
+import { FileScheduleStore } from './store/FileScheduleStore';
+import { JsonlAuditSink } from './audit/JsonlAuditSink';
+import { BlocklistMessageFilter } from './chat/BlocklistMessageFilter';
+import { AuditAction } from './types/Audit';
+import { ArchiveMedia } from './types/Archive';
+import { RoomSort } from './types/Discovery';
 
 // Initialize Express application
 const app = express();
+app.use(express.json());
 const httpServer = createServer(app);
 
 // Configure Socket.IO with CORS settings
@@ -21,21 +36,370 @@ const io = new Server(httpServer, {
   }
 });
 
+// Configure authentication from the environment
+const authenticators: Authenticator[] = [];
+if (process.env.AUTH_CUSTODY_KEYS_FILE) {
+  // JSON object mapping FIDs to PEM encoded Ed25519 public keys
+  const custodyKeys = JSON.parse(readFileSync(process.env.AUTH_CUSTODY_KEYS_FILE, 'utf8'));
+  authenticators.push(new SignedMessageAuthenticator(
+    new Map(Object.entries(custodyKeys)),
+    undefined,
+    process.env.AUTH_DOMAIN
+  ));
+}
+if (process.env.AUTH_TOKEN_SECRET) {
+  authenticators.push(new TokenAuthenticator(process.env.AUTH_TOKEN_SECRET));
+}
+if (authenticators.length === 0) {
+  console.warn('No authenticator configured: set AUTH_CUSTODY_KEYS_FILE or AUTH_TOKEN_SECRET');
+}
+
 // Initialize the WebSocket server
-const socketServer = new SocketServer(io);
+const socketServer = new SocketServer(io, {
+  authenticator: new CompositeAuthenticator(authenticators),
+  media: {
+    numWorkers: process.env.MEDIASOUP_WORKERS ? Number(process.env.MEDIASOUP_WORKERS) : undefined,
+    consumersPerRouter: process.env.MEDIASOUP_CONSUMERS_PER_ROUTER
+      ? Number(process.env.MEDIASOUP_CONSUMERS_PER_ROUTER)
+      : undefined
+  },
+  rooms: {
+    store: process.env.ROOM_STORE_FILE ? new FileRoomStore(process.env.ROOM_STORE_FILE) : undefined,
+    maxSpeakers: process.env.MAX_SPEAKERS ? Number(process.env.MAX_SPEAKERS) : undefined,
+    maxRoomsPerHost: process.env.MAX_ROOMS_PER_HOST ? Number(process.env.MAX_ROOMS_PER_HOST) : undefined,
+    allowedReactions: process.env.ALLOWED_REACTIONS ? process.env.ALLOWED_REACTIONS.split(',') : undefined
+  },
+  recording: {
+    directory: process.env.RECORDINGS_DIR
+  },
+  archive: {
+    store: process.env.ARCHIVE_DIR ? new FileArchiveStore(process.env.ARCHIVE_DIR) : undefined
+  },
+  audit: process.env.AUDIT_LOG_FILE ? new JsonlAuditSink(process.env.AUDIT_LOG_FILE) : undefined,
+  schedule: process.env.SCHEDULE_STORE_FILE ? new FileScheduleStore(process.env.SCHEDULE_STORE_FILE) : undefined,
+  messageFilter: process.env.CHAT_BLOCKED_WORDS
+    ? new BlocklistMessageFilter(process.env.CHAT_BLOCKED_WORDS.split(','))
+    : undefined
+});
+
+/**
+ * Authenticates a REST request. Clients send their FID in `X-Fid` and either
+ * `Authorization: Bearer <token>` or a base64 encoded signed message in
+ * `X-Message` with its signature in `X-Signature`. The user is stored in
+ * `res.locals.user`.
+ */
+const requireAuth: express.RequestHandler = async (req, res, next) => {
+  const authorization = req.header('authorization');
+  const message = req.header('x-message');
+  let result: AuthResult;
+  try {
+    result = await socketServer.authenticate({
+      fid: req.header('x-fid') ?? '',
+      token: authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : undefined,
+      message: message ? Buffer.from(message, 'base64').toString('utf8') : undefined,
+      signature: req.header('x-signature')
+    });
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  if (!result.success) {
+    res.status(401).json({ error: { message: result.reason } });
+    return;
+  }
+  res.locals.user = result.user;
+  next();
+};
+
+/**
+ * Authenticates a REST request that sends credentials and lets anonymous
+ * requests through without a user.
+ */
+const optionalAuth: express.RequestHandler = (req, res, next) => {
+  if (!req.header('x-fid')) {
+    next();
+    return;
+  }
+  return requireAuth(req, res, next);
+};
 
 /**
- * REST API endpoint to list all active rooms
+ * REST API endpoint to list the active rooms the requesting user may see.
+ * Anonymous requests only see public rooms.
  * @route GET /api/rooms
- * @returns {Object[]} Array of active rooms
+ * @query tag - Only rooms with one of these tags; repeated or comma separated
+ * @query q - Only rooms whose name or description contains this text
+ * @query sort - `listeners`, `recent` or `reactions`
+ * @query cursor, limit - Page to return
+ * @query view - `summary` for counts instead of participant lists
+ * @returns {Object[]|Object} Every matching room, or a page of rooms and the
+ * cursor of the next page when `limit` or `cursor` is given
+ */
+app.get('/api/rooms', optionalAuth, async (req, res) => {
+  const string = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+  const tags = ([] as unknown[]).concat(req.query.tag ?? [])
+    .flatMap(tag => (typeof tag === 'string' ? tag.split(',') : []))
+    .map(tag => tag.trim())
+    .filter(Boolean);
+  // Pages are opt-in so clients that expect the plain list keep working
+  const paginate = req.query.limit !== undefined || req.query.cursor !== undefined;
+
+  try {
+    const page = await socketServer.discoverRooms({
+      tags,
+      search: string(req.query.q),
+      sort: string(req.query.sort) as RoomSort | undefined,
+      cursor: string(req.query.cursor),
+      limit: string(req.query.limit) ? Number(req.query.limit) : undefined,
+      view: req.query.view === 'summary' ? 'summary' : 'full',
+      paginate
+    }, res.locals.user?.fid);
+    res.json(paginate ? page : page.rooms);
+  } catch (error) {
+    res.status(400).json({ error: { message: (error as Error).message } });
+  }
+});
+
+/**
+ * REST API endpoint to list the rooms that have not gone live yet
+ * @route GET /api/rooms/upcoming
+ * @returns {Object[]} Scheduled rooms, soonest first
+ */
+app.get('/api/rooms/upcoming', (_req, res) => {
+  res.json(socketServer.listUpcomingRooms());
+});
+
+/**
+ * REST API endpoint to plan a room for later, hosted by the authenticated user
+ * @route POST /api/rooms/schedule
+ * @body name, startsAt, description, tags, recurrence, maxSpeakers, reactions
+ * @returns {Object} The scheduled room
+ */
+app.post('/api/rooms/schedule', requireAuth, (req, res) => {
+  try {
+    res.status(201).json(socketServer.scheduleRoom(res.locals.user.fid, req.body ?? {}));
+  } catch (error) {
+    res.status(400).json({ error: { message: (error as Error).message } });
+  }
+});
+
+/**
+ * REST API endpoint to open a room hosted by the authenticated user, e.g. a bot
+ * @route POST /api/rooms
+ * @body name, tags, maxSpeakers, reactions, visibility, allowedFids, password
+ * @returns {Object} The created room
+ */
+app.post('/api/rooms', requireAuth, async (req, res) => {
+  const { name, tags, maxSpeakers, reactions, visibility, allowedFids, password } = req.body ?? {};
+  try {
+    const room = await socketServer.createRoom(res.locals.user.fid, name, tags, {
+      maxSpeakers, reactions, visibility, allowedFids, password
+    });
+    res.status(201).json(room);
+  } catch (error) {
+    res.status(400).json({ error: { message: (error as Error).message } });
+  }
+});
+
+/**
+ * REST API endpoint returning an active room the requesting user may see
+ * @route GET /api/rooms/:id
+ * @returns {Object} The room
+ */
+app.get('/api/rooms/:id', optionalAuth, async (req, res, next) => {
+  try {
+    const room = await socketServer.getRoom(req.params.id, res.locals.user?.fid);
+    if (!room) {
+      res.status(404).json({ error: { message: 'Room not found' } });
+      return;
+    }
+    res.json(room);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * REST API endpoint closing a room on request of its host
+ * @route DELETE /api/rooms/:id
  */
-app.get('/api/rooms', (_req, res) => {
-  const rooms = socketServer.listRooms();
-  res.json(rooms);
+app.delete('/api/rooms/:id', requireAuth, async (req, res, next) => {
+  try {
+    const role = await socketServer.getRole(req.params.id, res.locals.user.fid);
+    if (!role) {
+      res.status(404).json({ error: { message: 'Room not found' } });
+      return;
+    }
+    if (role !== 'host') {
+      res.status(403).json({ error: { message: 'Only the host can close the room' } });
+      return;
+    }
+
+    if (!await socketServer.closeRoom(req.params.id, res.locals.user.fid)) {
+      res.status(409).json({ error: { message: 'Room is closed or hosted by another node' } });
+      return;
+    }
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
 });
 
-// Start the server
+/**
+ * REST API endpoint listing the users in a room with their roles and mute state
+ * @route GET /api/rooms/:id/participants
+ * @returns {Object[]} Participants, the stage first
+ */
+app.get('/api/rooms/:id/participants', optionalAuth, async (req, res, next) => {
+  try {
+    const participants = await socketServer.getParticipants(req.params.id, res.locals.user?.fid);
+    if (!participants) {
+      res.status(404).json({ error: { message: 'Room not found' } });
+      return;
+    }
+    res.json(participants);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * REST API endpoint listing the active rooms a user hosts or is in
+ * @route GET /api/users/:fid/rooms
+ * @returns {Object[]} Rooms the requesting user may see
+ */
+app.get('/api/users/:fid/rooms', optionalAuth, async (req, res, next) => {
+  try {
+    res.json(await socketServer.listUserRooms(req.params.fid, res.locals.user?.fid));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * REST API endpoint describing the media routers serving a room
+ * @route GET /api/rooms/:id/media
+ * @returns {Object} The routers of the room and the listeners placed on each
+ */
+app.get('/api/rooms/:id/media', optionalAuth, (req, res) => {
+  const state = socketServer.getRoomMediaState(req.params.id, res.locals.user?.fid);
+  if (!state) {
+    res.status(404).json({ error: { message: 'Room not found' } });
+    return;
+  }
+  res.json(state);
+});
+
+/**
+ * REST API endpoint returning the audit log of a room to its host and co-hosts
+ * @route GET /api/rooms/:id/audit
+ * @query since, until - Timestamp range
+ * @query action - Only entries of this action
+ * @query fid - Only entries taken by or on this user
+ * @query limit - Only the most recent entries
+ * @returns {Object[]} Audit entries, oldest first
+ */
+app.get('/api/rooms/:id/audit', requireAuth, async (req, res, next) => {
+  try {
+    const role = await socketServer.getRole(req.params.id, res.locals.user.fid);
+    if (!role) {
+      res.status(404).json({ error: { message: 'Room not found' } });
+      return;
+    }
+    if (role !== 'host' && role !== 'co-host') {
+      res.status(403).json({ error: { message: 'Only host or co-hosts can read the audit log' } });
+      return;
+    }
+
+    const number = (value: unknown) => (typeof value === 'string' && value !== '' ? Number(value) : undefined);
+    const entries = await socketServer.getAuditLog(req.params.id, {
+      since: number(req.query.since),
+      until: number(req.query.until),
+      action: typeof req.query.action === 'string' ? req.query.action as AuditAction : undefined,
+      fid: typeof req.query.fid === 'string' ? req.query.fid : undefined,
+      limit: number(req.query.limit)
+    });
+    res.json(entries);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * REST API endpoint to list archived rooms
+ * @route GET /api/archive
+ * @returns {Object[]} Closed rooms, most recently closed first
+ */
+app.get('/api/archive', optionalAuth, async (_req, res, next) => {
+  try {
+    const entries = await socketServer.listArchive(res.locals.user?.fid);
+    res.json(entries);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * REST API endpoint returning an archived room
+ * @route GET /api/archive/:roomId
+ * @returns {Object} The room's timeline, chapters and attached media
+ */
+app.get('/api/archive/:roomId', optionalAuth, async (req, res, next) => {
+  try {
+    const entry = await socketServer.getArchiveEntry(req.params.roomId, res.locals.user?.fid);
+    if (!entry) {
+      res.status(404).json({ error: { message: 'Archive entry not found' } });
+      return;
+    }
+    res.json(entry);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * REST API endpoint serving audio attached to an archived room.
+ * Supports Range requests so clients can seek.
+ * @route GET /api/archive/:roomId/media/:mediaId
+ * @returns The audio file
+ */
+app.get('/api/archive/:roomId/media/:mediaId', optionalAuth, async (req, res, next) => {
+  let media: ArchiveMedia | undefined;
+  try {
+    media = await socketServer.getArchiveMedia(req.params.roomId, req.params.mediaId, res.locals.user?.fid);
+  } catch (error) {
+    next(error);
+    return;
+  }
+  if (!media) {
+    res.status(404).json({ error: { message: 'Media not found' } });
+    return;
+  }
+  res.sendFile(resolve(media.file), { acceptRanges: true, headers: { 'Content-Type': media.mimeType } }, error => {
+    if (error && !res.headersSent) {
+      res.status(404).json({ error: { message: 'Media not found' } });
+    }
+  });
+});
+
+/**
+ * Answers requests whose handler failed unexpectedly
+ */
+const handleError: express.ErrorRequestHandler = (error, req, res, _next) => {
+  console.error(`Failed to handle ${req.method} ${req.path}`, error);
+  if (res.headersSent) return;
+  res.status(500).json({ error: { message: 'Internal server error' } });
+};
+app.use(handleError);
+
+// Start the server once the media workers are running
 const PORT = process.env.PORT || 3000;
-httpServer.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
+socketServer.init().then(() => {
+  httpServer.listen(PORT, () => {
+    console.log(`Server running on port ${PORT}`);
+  });
+}).catch(error => {
+  console.error('Failed to start server', error);
+  process.exit(1);
 });
\ No newline at end of file
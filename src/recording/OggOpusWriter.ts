@@ -0,0 +1,135 @@
+import { createWriteStream, WriteStream } from 'fs';
+import { randomBytes } from 'crypto';
+import { EventEmitter } from 'events';
+
+/** Ogg page header flags */
+const BEGINNING_OF_STREAM = 0x02;
+const END_OF_STREAM = 0x04;
+
+/** Lookup table for the Ogg CRC-32 (polynomial 0x04c11db7, not reflected) */
+const crcTable = new Uint32Array(256).map((_, index) => {
+  let crc = index << 24;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * Computes the checksum of an Ogg page
+ * @param page - The page with its checksum field zeroed
+ * @returns The CRC-32 of the page
+ */
+const oggCrc = (page: Buffer): number => {
+  let crc = 0;
+  for (const byte of page) {
+    crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+/**
+ * OggOpusWriter writes Opus packets to an Ogg file (RFC 7845), one packet
+ * per page. The last packet is held back so that it can be flagged as the
+ * end of the stream when the writer is closed.
+ *
+ * Emits `failed` with the error when the file cannot be written; packets
+ * queued after that are dropped.
+ */
+export class OggOpusWriter extends EventEmitter {
+  private stream: WriteStream;
+  private serial = randomBytes(4).readUInt32LE(0);
+  private sequence = 0;
+  private pending?: { packet: Buffer; granulePosition: number };
+  private failure?: Error;
+
+  /**
+   * Creates the file and writes the Opus identification and comment headers
+   * @param filePath - Path of the Ogg file to write
+   * @param channels - Number of audio channels
+   */
+  constructor(filePath: string, channels: number = 2) {
+    super();
+    this.stream = createWriteStream(filePath);
+    this.stream.on('error', error => {
+      if (this.failure) return;
+      this.failure = error;
+      this.emit('failed', error);
+    });
+
+    const head = Buffer.alloc(19);
+    head.write('OpusHead', 0, 'ascii');
+    head.writeUInt8(1, 8);
+    head.writeUInt8(channels, 9);
+    head.writeUInt16LE(0, 10);
+    head.writeUInt32LE(48000, 12);
+    head.writeInt16LE(0, 16);
+    head.writeUInt8(0, 18);
+    this.writePage(head, 0, BEGINNING_OF_STREAM);
+
+    const vendor = Buffer.from('native-center', 'utf8');
+    const tags = Buffer.alloc(16 + vendor.length);
+    tags.write('OpusTags', 0, 'ascii');
+    tags.writeUInt32LE(vendor.length, 8);
+    vendor.copy(tags, 12);
+    tags.writeUInt32LE(0, 12 + vendor.length);
+    this.writePage(tags, 0, 0);
+  }
+
+  /**
+   * Queues an Opus packet
+   * @param packet - The Opus packet
+   * @param granulePosition - Samples (at 48 kHz) up to the end of the packet
+   */
+  writePacket(packet: Buffer, granulePosition: number) {
+    if (this.pending) {
+      this.writePage(this.pending.packet, this.pending.granulePosition, 0);
+    }
+    this.pending = { packet, granulePosition };
+  }
+
+  /**
+   * Ends the stream and closes the file
+   * @returns Resolves once everything has been flushed to disk, or right away if writing failed
+   */
+  close(): Promise<void> {
+    if (this.failure) return Promise.resolve();
+
+    const { packet, granulePosition } = this.pending ?? { packet: Buffer.alloc(0), granulePosition: 0 };
+    this.writePage(packet, granulePosition, END_OF_STREAM);
+    this.pending = undefined;
+
+    return new Promise((resolve, reject) => {
+      this.stream.once('error', reject);
+      this.stream.end(resolve);
+    });
+  }
+
+  /**
+   * Writes a single packet as an Ogg page
+   * @private
+   * @param packet - The packet to write
+   * @param granulePosition - Granule position of the page
+   * @param flags - Page header flags
+   */
+  private writePage(packet: Buffer, granulePosition: number, flags: number) {
+    if (this.failure) return;
+
+    // Lacing values: a run of 255s terminated by the remainder
+    const segments = [...Array(Math.floor(packet.length / 255)).fill(255), packet.length % 255];
+
+    const header = Buffer.alloc(27 + segments.length);
+    header.write('OggS', 0, 'ascii');
+    header.writeUInt8(0, 4);
+    header.writeUInt8(flags, 5);
+    header.writeBigUInt64LE(BigInt(granulePosition), 6);
+    header.writeUInt32LE(this.serial, 14);
+    header.writeUInt32LE(this.sequence++, 18);
+    header.writeUInt8(segments.length, 26);
+    segments.forEach((value, index) => header.writeUInt8(value, 27 + index));
+
+    const page = Buffer.concat([header, packet]);
+    page.writeUInt32LE(oggCrc(page), 22);
+    this.stream.write(page);
+  }
+}
@@ -0,0 +1,135 @@
+import { createSocket, Socket } from 'dgram';
+import { AddressInfo } from 'net';
+import { EventEmitter } from 'events';
+import { OggOpusWriter } from './OggOpusWriter';
+
+/** Frame durations in 48 kHz samples, indexed by Opus TOC configuration */
+const frameSamples = [
+  480, 960, 1920, 2880, 480, 960, 1920, 2880, 480, 960, 1920, 2880, // SILK
+  480, 960, 480, 960, // Hybrid
+  120, 240, 480, 960, 120, 240, 480, 960, 120, 240, 480, 960, 120, 240, 480, 960 // CELT
+];
+
+/**
+ * Returns the number of 48 kHz samples an Opus packet decodes to
+ * @param packet - The Opus packet
+ * @returns Samples per channel
+ */
+const opusPacketSamples = (packet: Buffer): number => {
+  const toc = packet[0];
+  const frames = [1, 2, 2, (packet[1] ?? 0) & 0x3f][toc & 0x03];
+  return frameSamples[toc >> 3] * frames;
+};
+
+/**
+ * Extracts the header fields and payload of an RTP packet
+ * @param packet - The UDP datagram
+ * @returns The parsed packet, or undefined for RTCP and malformed packets
+ */
+const parseRtpPacket = (packet: Buffer) => {
+  if (packet.length < 12 || packet[0] >> 6 !== 2) return undefined;
+  // RTCP shares the port when rtcp-mux is used
+  if (packet[1] >= 200 && packet[1] <= 204) return undefined;
+
+  let offset = 12 + (packet[0] & 0x0f) * 4;
+  if (packet[0] & 0x10) {
+    if (packet.length < offset + 4) return undefined;
+    offset += 4 + packet.readUInt16BE(offset + 2) * 4;
+  }
+  const end = packet[0] & 0x20 ? packet.length - packet[packet.length - 1] : packet.length;
+  if (offset >= end) return undefined;
+
+  return {
+    sequenceNumber: packet.readUInt16BE(2),
+    timestamp: packet.readUInt32BE(4),
+    payload: packet.subarray(offset, end),
+  };
+};
+
+/**
+ * OpusTrackRecorder listens for a single speaker's RTP on a local UDP port
+ * and writes the Opus payloads to an Ogg file. Gaps in the RTP timestamps
+ * (muted or silent periods) are kept as gaps in the file.
+ *
+ * Emits `failed` with the error, once, when the file cannot be written or
+ * the socket fails while recording.
+ */
+export class OpusTrackRecorder extends EventEmitter {
+  private socket: Socket = createSocket('udp4');
+  private writer: OggOpusWriter;
+  private firstTimestamp?: number;
+  private lastTimestamp = 0;
+  private lastSequenceNumber = -1;
+  private elapsedSamples = 0;
+  private failed = false;
+
+  /**
+   * Creates a new instance of OpusTrackRecorder
+   * @param filePath - Path of the Ogg file to write
+   */
+  constructor(filePath: string) {
+    super();
+    this.writer = new OggOpusWriter(filePath);
+    this.writer.on('failed', error => this.fail(error));
+    this.socket.on('message', packet => this.handlePacket(packet));
+  }
+
+  /**
+   * Starts listening on an ephemeral loopback port
+   * @returns The port RTP must be sent to
+   */
+  start(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.socket.once('error', reject);
+      this.socket.bind(0, '127.0.0.1', () => {
+        this.socket.off('error', reject);
+        this.socket.on('error', error => this.fail(error));
+        resolve((this.socket.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  /**
+   * Stops listening and finishes the file
+   */
+  async stop() {
+    await new Promise<void>(resolve => this.socket.close(() => resolve()));
+    await this.writer.close();
+  }
+
+  /**
+   * Reports the first failure of the track
+   * @private
+   * @param error - What went wrong
+   */
+  private fail(error: Error) {
+    if (this.failed) return;
+    this.failed = true;
+    this.emit('failed', error);
+  }
+
+  /**
+   * Writes the Opus payload of an RTP packet. Duplicated and late packets
+   * are dropped.
+   * @private
+   * @param packet - The UDP datagram
+   */
+  private handlePacket(packet: Buffer) {
+    const rtp = parseRtpPacket(packet);
+    if (!rtp || rtp.sequenceNumber === this.lastSequenceNumber) return;
+
+    if (this.firstTimestamp === undefined) {
+      this.firstTimestamp = rtp.timestamp;
+      this.lastTimestamp = rtp.timestamp;
+    }
+
+    // Unsigned difference survives the 32-bit timestamp wrapping around
+    const delta = (rtp.timestamp - this.lastTimestamp) >>> 0;
+    if (delta > 0x7fffffff) return;
+
+    this.elapsedSamples += delta;
+    this.lastTimestamp = rtp.timestamp;
+    this.lastSequenceNumber = rtp.sequenceNumber;
+    this.writer.writePacket(rtp.payload, this.elapsedSamples + opusPacketSamples(rtp.payload));
+  }
+}
@@ -0,0 +1,171 @@
+import { promises as fs } from 'fs';
+import { EventEmitter } from 'events';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { RoomActivity } from '../types/Room';
+import { RecordingMetadata, RecordingState } from '../types/Recording';
+import { MediasoupBroadcaster } from '../broadcasters/MediasoupBroadcaster';
+import { OpusTrackRecorder } from './OpusTrackRecorder';
+
+/**
+ * Configuration for the RecordingManager
+ */
+export interface RecordingManagerOptions {
+  /** Directory recordings are written to, one subdirectory per recording */
+  directory?: string;
+}
+
+/**
+ * A recording in progress
+ */
+interface ActiveRecording {
+  metadata: RecordingMetadata;
+  directory: string;
+  recorders: Map<string, OpusTrackRecorder>;
+}
+
+/**
+ * RecordingManager records rooms to disk. Every speaker's audio is written
+ * to its own Ogg/Opus file, next to a `metadata.json` sidecar holding the
+ * speaker timeline and the stage events that happened while recording.
+ *
+ * Emits `recording-failed` with the room ID and the error when a track can
+ * no longer be written; the room's recording should then be stopped.
+ */
+export class RecordingManager extends EventEmitter {
+  private directory: string;
+  private recordings: Map<string, ActiveRecording> = new Map();
+
+  /**
+   * Creates a new instance of RecordingManager
+   * @param broadcaster - The broadcaster carrying the rooms' audio
+   * @param options - Recording configuration
+   */
+  constructor(private broadcaster: MediasoupBroadcaster, options: RecordingManagerOptions = {}) {
+    super();
+    this.directory = options.directory ?? './recordings';
+  }
+
+  /**
+   * Checks whether a room is being recorded
+   * @param roomId - The ID of the room
+   * @returns True if a recording is in progress
+   */
+  isRecording(roomId: string): boolean {
+    return this.recordings.has(roomId);
+  }
+
+  /**
+   * Describes the recording status of a room
+   * @param roomId - The ID of the room
+   * @returns The room's recording state
+   */
+  getState(roomId: string): RecordingState {
+    const metadata = this.recordings.get(roomId)?.metadata;
+    return metadata
+      ? { roomId, recording: true, recordingId: metadata.id, startedAt: metadata.startedAt }
+      : { roomId, recording: false };
+  }
+
+  /**
+   * Starts recording a room and records every speaker currently producing audio
+   * @param roomId - The ID of the room
+   * @param speakers - FIDs of the users on stage
+   * @returns The new recording's metadata
+   * @throws Error if the room is already being recorded
+   */
+  async start(roomId: string, speakers: string[]): Promise<RecordingMetadata> {
+    if (this.recordings.has(roomId)) throw new Error('Room is already being recorded');
+
+    const startedAt = Date.now();
+    const metadata: RecordingMetadata = {
+      id: randomUUID(),
+      roomId,
+      startedAt,
+      tracks: [],
+      speakers: speakers.map(fid => ({ fid, from: startedAt })),
+      events: []
+    };
+    const directory = join(this.directory, metadata.id);
+    await fs.mkdir(directory, { recursive: true });
+    this.recordings.set(roomId, { metadata, directory, recorders: new Map() });
+
+    for (const fid of speakers) {
+      if (this.broadcaster.hasProducer(fid)) await this.addTrack(roomId, fid);
+    }
+    return metadata;
+  }
+
+  /**
+   * Starts a track for a speaker's current producer. A speaker who starts
+   * producing again gets a new track.
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the speaker
+   */
+  async addTrack(roomId: string, fid: string) {
+    const recording = this.recordings.get(roomId);
+    if (!recording) return;
+
+    const count = recording.metadata.tracks.filter(track => track.fid === fid).length;
+    const file = count === 0 ? `${fid}.ogg` : `${fid}-${count + 1}.ogg`;
+
+    await recording.recorders.get(fid)?.stop();
+    const recorder = new OpusTrackRecorder(join(recording.directory, file));
+    recorder.on('failed', error => {
+      console.error(`Failed to record ${fid} in room ${roomId}`, error);
+      if (this.recordings.get(roomId) === recording) this.emit('recording-failed', roomId, error);
+    });
+    recording.recorders.set(fid, recorder);
+
+    const port = await recorder.start();
+    await this.broadcaster.createRecordingConsumer(roomId, fid, { ip: '127.0.0.1', port });
+    recording.metadata.tracks.push({ fid, file, startedAt: Date.now() });
+  }
+
+  /**
+   * Adds a stage change to the timeline of the room's recording, if any
+   * @param activity - The stage change
+   */
+  recordActivity(activity: RoomActivity) {
+    const metadata = this.recordings.get(activity.roomId)?.metadata;
+    if (!metadata) return;
+
+    metadata.events.push(activity);
+    if (activity.type === 'promoted') {
+      metadata.speakers.push({ fid: activity.fid, from: activity.timestamp });
+    } else if (activity.type === 'demoted' || activity.type === 'left') {
+      const interval = metadata.speakers.find(speaker => speaker.fid === activity.fid && speaker.until === undefined);
+      if (interval) interval.until = activity.timestamp;
+    }
+  }
+
+  /**
+   * Returns where a file of a recording is stored
+   * @param recordingId - The ID of the recording
+   * @param file - The file name from the recording's metadata
+   * @returns Path of the file
+   */
+  getFilePath(recordingId: string, file: string): string {
+    return join(this.directory, recordingId, file);
+  }
+
+  /**
+   * Stops recording a room, finishes its audio files and writes the sidecar
+   * @param roomId - The ID of the room
+   * @returns The finished recording's metadata, or undefined if the room was not being recorded
+   */
+  async stop(roomId: string): Promise<RecordingMetadata | undefined> {
+    const recording = this.recordings.get(roomId);
+    if (!recording) return undefined;
+    this.recordings.delete(roomId);
+
+    this.broadcaster.closeRecordingTransports(roomId);
+    for (const recorder of recording.recorders.values()) {
+      await recorder.stop();
+    }
+
+    recording.metadata.stoppedAt = Date.now();
+    await fs.writeFile(join(recording.directory, 'metadata.json'), JSON.stringify(recording.metadata, null, 2));
+    return recording.metadata;
+  }
+}
@@ -0,0 +1,81 @@
+import { Room } from '../types/Room';
+import { LobbyChanges, RoomSummary } from '../types/Discovery';
+import { summarizeRoom } from './discovery';
+
+/**
+ * LobbyFeed follows the public rooms of this node and hands over what
+ * changed about them once per interval: rooms that opened, rooms that
+ * closed, and rooms whose participant counts or top speakers changed.
+ * Changes are grouped by the tags of their room so they can be sent to
+ * the lobby subscribers filtering on those tags.
+ */
+export class LobbyFeed {
+  /** Summary of each listed room as of the last update */
+  private listed: Map<string, RoomSummary> = new Map();
+  /** Rooms changed since the last update */
+  private changed: Map<string, Room> = new Map();
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Creates a new instance of LobbyFeed
+   * @param intervalMs - Minimum time between two updates, starting with the first change
+   * @param send - Sends the changes of rooms sharing the same tags
+   */
+  constructor(
+    private intervalMs: number,
+    private send: (tags: string[], changes: LobbyChanges) => void
+  ) {}
+
+  /**
+   * Notes that a room opened, changed or closed
+   * @param room - The room
+   */
+  update(room: Room) {
+    this.changed.set(room.id, room);
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.intervalMs);
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Sends the changes collected since the last update, grouped by room tags
+   * @private
+   */
+  private flush() {
+    this.timer = undefined;
+    const groups: Map<string, { tags: string[]; changes: LobbyChanges }> = new Map();
+    const changesFor = (tags: string[]) => {
+      const key = JSON.stringify(tags);
+      if (!groups.has(key)) groups.set(key, { tags, changes: { added: [], removed: [], updated: [] } });
+      return groups.get(key)!.changes;
+    };
+
+    for (const room of this.changed.values()) {
+      const previous = this.listed.get(room.id);
+      if (!room.active || room.visibility !== 'public') {
+        if (previous) {
+          this.listed.delete(room.id);
+          changesFor(previous.tags).removed.push(room.id);
+        }
+        continue;
+      }
+
+      const summary = summarizeRoom(room);
+      this.listed.set(room.id, summary);
+      if (!previous) {
+        changesFor(summary.tags).added.push(summary);
+      } else if (
+        previous.speakerCount !== summary.speakerCount ||
+        previous.listenerCount !== summary.listenerCount ||
+        previous.topSpeakers.join() !== summary.topSpeakers.join()
+      ) {
+        const { id, speakerCount, listenerCount, topSpeakers } = summary;
+        changesFor(summary.tags).updated.push({ id, speakerCount, listenerCount, topSpeakers });
+      }
+    }
+    this.changed.clear();
+
+    groups.forEach(({ tags, changes }) => this.send(tags, changes));
+  }
+}
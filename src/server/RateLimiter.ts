@@ -0,0 +1,73 @@
+/**
+ * Token bucket settings of one event
+ */
+export interface RateLimit {
+  /** Most events that may be sent in a burst */
+  capacity: number;
+  /** Events regained per second after a burst */
+  refillPerSecond: number;
+}
+
+/**
+ * Tokens left in the bucket of one user and event
+ */
+interface Bucket {
+  tokens: number;
+  /** Time (ms) the tokens were last counted */
+  updatedAt: number;
+}
+
+/**
+ * RateLimiter keeps a token bucket per user and event. Each event takes a
+ * token; an empty bucket refuses events until it has refilled. Events without
+ * a configured limit are never refused.
+ */
+export class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+
+  /**
+   * Creates a new instance of RateLimiter
+   * @param limits - Limits by event name
+   */
+  constructor(private limits: Record<string, RateLimit>) {
+    setInterval(() => this.prune(), 60 * 1000).unref?.();
+  }
+
+  /**
+   * Takes a token for an event if one is left
+   * @param key - Who sends the event, usually a FID
+   * @param event - The event name
+   * @returns 0 if the event may proceed, otherwise the time (ms) until it may
+   */
+  consume(key: string, event: string): number {
+    const limit = this.limits[event];
+    if (!limit) return 0;
+
+    const bucketKey = `${key}:${event}`;
+    const now = Date.now();
+    const bucket = this.buckets.get(bucketKey) ?? { tokens: limit.capacity, updatedAt: now };
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + (now - bucket.updatedAt) / 1000 * limit.refillPerSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(bucketKey, bucket);
+
+    if (bucket.tokens < 1) {
+      return Math.ceil((1 - bucket.tokens) / limit.refillPerSecond * 1000);
+    }
+    bucket.tokens -= 1;
+    return 0;
+  }
+
+  /**
+   * Forgets buckets that have refilled completely, as they behave like new ones
+   * @private
+   */
+  private prune() {
+    const now = Date.now();
+    this.buckets.forEach((bucket, bucketKey) => {
+      const limit = this.limits[bucketKey.slice(bucketKey.lastIndexOf(':') + 1)];
+      if (!limit || bucket.tokens + (now - bucket.updatedAt) / 1000 * limit.refillPerSecond >= limit.capacity) {
+        this.buckets.delete(bucketKey);
+      }
+    });
+  }
+}
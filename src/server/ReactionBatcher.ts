@@ -0,0 +1,60 @@
+import { ReactionType } from '../types/Room';
+
+/** Reactions sent per type during one batching window */
+export type ReactionCounts = Partial<Record<ReactionType, number>>;
+
+/**
+ * Batching window of one room
+ */
+interface BatchWindow {
+  timer: ReturnType<typeof setTimeout>;
+  counts: ReactionCounts;
+}
+
+/**
+ * ReactionBatcher collects the reactions sent in a room over a short window
+ * and hands them over as counts per type once the window ends, so a room
+ * receives one broadcast per window instead of one per reaction.
+ */
+export class ReactionBatcher {
+  private windows: Map<string, BatchWindow> = new Map();
+
+  /**
+   * Creates a new instance of ReactionBatcher
+   * @param intervalMs - Length of a batching window, starting with its first reaction
+   * @param send - Broadcasts the counts of a window to a room
+   */
+  constructor(
+    private intervalMs: number,
+    private send: (roomId: string, counts: ReactionCounts) => void
+  ) {}
+
+  /**
+   * Counts a reaction in the room's current window, opening one if needed
+   * @param roomId - The ID of the room
+   * @param type - The type of reaction
+   */
+  add(roomId: string, type: ReactionType) {
+    let window = this.windows.get(roomId);
+    if (!window) {
+      const timer = setTimeout(() => {
+        const counts = this.windows.get(roomId)?.counts;
+        this.windows.delete(roomId);
+        if (counts) this.send(roomId, counts);
+      }, this.intervalMs);
+      timer.unref?.();
+      window = { timer, counts: {} };
+      this.windows.set(roomId, window);
+    }
+    window.counts[type] = (window.counts[type] ?? 0) + 1;
+  }
+
+  /**
+   * Drops the room's pending reactions, e.g. when it closes
+   * @param roomId - The ID of the room
+   */
+  clear(roomId: string) {
+    clearTimeout(this.windows.get(roomId)?.timer);
+    this.windows.delete(roomId);
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Throttling window of one event in one room
+ */
+interface ThrottleWindow {
+  timer: ReturnType<typeof setTimeout>;
+  /** Latest payload received during the window, sent when it ends */
+  pending?: { payload: unknown };
+}
+
+/**
+ * RoomEventThrottle limits how often an event is broadcast to a room. The
+ * first event is sent right away; events arriving during the following
+ * interval are coalesced and only the latest one is sent when it ends.
+ */
+export class RoomEventThrottle {
+  private windows: Map<string, ThrottleWindow> = new Map();
+
+  /**
+   * Creates a new instance of RoomEventThrottle
+   * @param intervalMs - Minimum time between two broadcasts of an event to a room
+   * @param send - Broadcasts an event to a room
+   */
+  constructor(
+    private intervalMs: number,
+    private send: (roomId: string, event: string, payload: unknown) => void
+  ) {}
+
+  /**
+   * Broadcasts an event now, or once the room's current window for it ends
+   * @param roomId - The ID of the room
+   * @param event - The event name
+   * @param payload - The event payload
+   */
+  push(roomId: string, event: string, payload: unknown) {
+    const key = `${roomId}:${event}`;
+    const window = this.windows.get(key);
+    if (window) {
+      window.pending = { payload };
+      return;
+    }
+
+    this.send(roomId, event, payload);
+    this.openWindow(roomId, event);
+  }
+
+  /**
+   * Drops pending events of a room, e.g. when it closes
+   * @param roomId - The ID of the room
+   */
+  clear(roomId: string) {
+    for (const [key, window] of this.windows) {
+      if (key.startsWith(`${roomId}:`)) {
+        clearTimeout(window.timer);
+        this.windows.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Starts the interval during which further events are held back
+   * @private
+   * @param roomId - The ID of the room
+   * @param event - The event name
+   */
+  private openWindow(roomId: string, event: string) {
+    const key = `${roomId}:${event}`;
+    const timer = setTimeout(() => {
+      const pending = this.windows.get(key)?.pending;
+      this.windows.delete(key);
+      if (pending) {
+        this.send(roomId, event, pending.payload);
+        this.openWindow(roomId, event);
+      }
+    }, this.intervalMs);
+    timer.unref?.();
+    this.windows.set(key, { timer });
+  }
+}
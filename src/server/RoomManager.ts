@@ -1,33 +1,221 @@
-import { Room, User, ReactionType, Reaction } from '../types/Room';
+import { EventEmitter } from 'events';
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import {
+  Room, User, ReactionType, Reaction, RoomRole, RoomActivityType, SpeakerInvitation, RoomVisibility, RoomAccess,
+  Participant
+} from '../types/Room';
+import { ChatMessage } from '../types/Chat';
+import { RoomStore } from '../types/Store';
+import { MemoryRoomStore } from '../store/MemoryRoomStore';
+import { toStoredRoom, fromStoredRoom, DEFAULT_MAX_SPEAKERS, DEFAULT_REACTIONS } from '../store/serialization';
+
+/**
+ * Configuration for the RoomManager
+ */
+export interface RoomManagerOptions {
+  /** Where room state is persisted, defaults to process memory */
+  store?: RoomStore;
+  /** How long a host has to reclaim a room restored after a restart */
+  recoveryGracePeriodMs?: number;
+  /** ID of this cluster node; rooms created here are owned by it */
+  nodeId?: string;
+  /** Largest stage a room may have, the host included; also the default stage size */
+  maxSpeakers?: number;
+  /** How many chat messages each room keeps for late joiners */
+  messageHistorySize?: number;
+  /** How many active rooms one user may host at a time */
+  maxRoomsPerHost?: number;
+  /** Reactions hosts may pick from, including custom emoji codes; also the set of rooms that do not pick */
+  allowedReactions?: ReactionType[];
+}
+
+/**
+ * Per-room settings chosen by the host when creating a room
+ */
+export interface CreateRoomOptions {
+  /** ID to give the room, e.g. of the scheduled room going live; random by default */
+  id?: string;
+  /** What the room is about */
+  description?: string;
+  /** Maximum number of users on stage, capped at the server's limit */
+  maxSpeakers?: number;
+  /** Reactions that may be sent in the room, chosen from the server's allowed reactions */
+  reactions?: ReactionType[];
+  /** Who may find and join the room, public by default */
+  visibility?: RoomVisibility;
+  /** FIDs of users let into a non-public room without a code or password */
+  allowedFids?: string[];
+  /** Password of a password-protected room */
+  password?: string;
+}
+
+/** Visibility modes a room may be created with */
+const VISIBILITIES: RoomVisibility[] = ['public', 'unlisted', 'invite-only', 'password'];
+
+/**
+ * Hashes a room password with a random salt
+ * @param password - The password chosen by the host
+ * @returns The salt and the scrypt hash, hex encoded and separated by a colon
+ */
+function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  return `${salt.toString('hex')}:${scryptSync(password, salt, 32).toString('hex')}`;
+}
+
+/**
+ * Checks a password against a hash made by `hashPassword`
+ * @param password - The password sent by a user
+ * @param passwordHash - The stored salt and hash
+ * @returns True if the password matches
+ */
+function verifyPassword(password: string, passwordHash: string): boolean {
+  const [salt, hash] = passwordHash.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Works out the role of a user in a room
+ * @param room - The room, if known
+ * @param fid - The FID of the user
+ * @returns The user's role; users without a stage role are listeners
+ */
+function roleIn(room: Room | undefined, fid: string): RoomRole {
+  if (room?.hostFid === fid) return 'host';
+  if (room?.coHosts.has(fid)) return 'co-host';
+  if (room?.speakers.has(fid)) return 'speaker';
+  return 'listener';
+}
 
 /**
  * RoomManager handles the creation and management of audio rooms
  * including user roles, reactions, and room state management.
+ * Every change is written through to the configured RoomStore.
+ *
+ * Emits `recovery-expired` with the room ID when a restored room is
+ * closed because its host did not reclaim it in time, `room-created` and
+ * `room-closed` with the room, `room-updated` with the room after every
+ * change, including its creation and closure, and `activity` with a timestamped
+ * RoomActivity whenever someone joins the room, joins or leaves the stage,
+ * or changes their mute state.
  */
-export class RoomManager {
+export class RoomManager extends EventEmitter {
   private rooms: Map<string, Room> = new Map();
+  private store: RoomStore;
+  private recoveryGracePeriodMs: number;
+  private nodeId?: string;
+  private maxSpeakers: number;
+  private messageHistorySize: number;
+  private maxRoomsPerHost: number;
+  private allowedReactions: ReactionType[];
+  private recoveryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  /**
+   * Creates a new instance of RoomManager
+   * @param options - Store and recovery configuration
+   */
+  constructor(options: RoomManagerOptions = {}) {
+    super();
+    this.store = options.store ?? new MemoryRoomStore();
+    this.recoveryGracePeriodMs = options.recoveryGracePeriodMs ?? 5 * 60 * 1000;
+    this.nodeId = options.nodeId;
+    this.maxSpeakers = options.maxSpeakers ?? DEFAULT_MAX_SPEAKERS;
+    this.messageHistorySize = options.messageHistorySize ?? 100;
+    this.maxRoomsPerHost = options.maxRoomsPerHost ?? 3;
+    this.allowedReactions = options.allowedReactions ?? DEFAULT_REACTIONS;
+  }
+
+  /**
+   * Restores the active rooms kept in the store that belong to this node.
+   * Restored rooms are marked as recovering and closed unless their host
+   * reclaims them within the grace period.
+   * @returns The restored rooms
+   */
+  async restore(): Promise<Room[]> {
+    const restored: Room[] = [];
+
+    for (const stored of await this.store.load()) {
+      if (!stored.active) continue;
+      if (stored.ownerNodeId && stored.ownerNodeId !== this.nodeId) continue;
+
+      const room = fromStoredRoom(stored);
+      room.recoveringUntil = Date.now() + this.recoveryGracePeriodMs;
+      this.rooms.set(room.id, room);
+      restored.push(room);
+
+      const timer = setTimeout(() => {
+        this.recoveryTimers.delete(room.id);
+        this.closeRoom(room.id);
+        this.emit('recovery-expired', room.id);
+      }, this.recoveryGracePeriodMs);
+      timer.unref?.();
+      this.recoveryTimers.set(room.id, timer);
+    }
+    return restored;
+  }
+
+  /**
+   * Hands a recovering room back to its host
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user reclaiming the room
+   * @returns True if the room was recovering and the user is its host
+   */
+  reclaimRoom(roomId: string, fid: string): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room?.recoveringUntil || room.hostFid !== fid) return false;
+
+    clearTimeout(this.recoveryTimers.get(roomId));
+    this.recoveryTimers.delete(roomId);
+    room.recoveringUntil = undefined;
+    return true;
+  }
 
   /**
    * Creates a new room with the specified host, name and tags
    * @param host - The user who will be the host of the room
    * @param name - The name of the room
    * @param tags - Array of tags for the room
+   * @param options - Per-room settings
    * @returns The newly created room
+   * @throws Error if the per-room settings are invalid or a room with the given ID exists
    */
-  createRoom(host: User, name: string, tags: string[] = []): Room {
+  createRoom(host: User, name: string, tags: string[] = [], options: CreateRoomOptions = {}): Room {
+    const problem = this.checkRoomOptions(options);
+    if (problem) throw new Error(problem);
+    if (options.id !== undefined && this.rooms.has(options.id)) throw new Error('Room already exists');
+
     const room: Room = {
-      id: crypto.randomUUID(),
+      id: options.id ?? crypto.randomUUID(),
       name,
+      description: options.description,
       tags,
       hostFid: host.fid,
       speakers: new Set([host.fid]),
+      coHosts: new Set(),
       listeners: new Set(),
-      raisedHands: new Set(),
+      raisedHands: new Map(),
+      invitations: new Map(),
+      maxSpeakers: Math.max(1, Math.min(options.maxSpeakers ?? this.maxSpeakers, this.maxSpeakers)),
+      visibility: options.visibility ?? 'public',
+      allowedFids: new Set(options.allowedFids ?? []),
+      inviteCodes: new Set(),
+      passwordHash: options.visibility === 'password' && options.password ? hashPassword(options.password) : undefined,
+      banned: new Set(),
+      muted: new Set(),
+      muteLocked: new Set(),
+      reactionSet: options.reactions ? Array.from(new Set(options.reactions)) : [...this.allowedReactions],
       reactions: [],
-      active: true
+      reactionStats: { totals: {}, byReactor: {}, bySpeaker: {} },
+      messages: [],
+      active: true,
+      createdAt: Date.now(),
+      ownerNodeId: this.nodeId
     };
 
     this.rooms.set(room.id, room);
+    this.persist(room);
+    this.emit('room-created', room);
     return room;
   }
 
@@ -36,15 +224,17 @@ export class RoomManager {
    * @param roomId - The ID of the room
    * @param fid - The FID of the user adding the reaction
    * @param type - The type of reaction
-   * @returns The created reaction or undefined if room not found
+   * @param speakerFid - The FID of the active speaker to attribute the reaction to
+   * @returns The created reaction, or undefined if the room was not found or does not allow the reaction
    */
-  addReaction(roomId: string, fid: string, type: ReactionType) {
+  addReaction(roomId: string, fid: string, type: ReactionType, speakerFid?: string) {
     const room = this.rooms.get(roomId);
-    if (room) {
+    if (room?.reactionSet.includes(type)) {
       const reaction: Reaction = {
         type,
         fid,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        speakerFid
       };
       room.reactions.push(reaction);
       
@@ -52,10 +242,180 @@ export class RoomManager {
       if (room.reactions.length > 100) {
         room.reactions.shift();
       }
+
+      const stats = room.reactionStats;
+      stats.totals[type] = (stats.totals[type] ?? 0) + 1;
+      stats.byReactor[fid] = (stats.byReactor[fid] ?? 0) + 1;
+      if (speakerFid) {
+        const received = stats.bySpeaker[speakerFid] ??= {};
+        received[type] = (received[type] ?? 0) + 1;
+      }
+      this.persist(room);
       return reaction;
     }
   }
 
+  /**
+   * Checks per-room settings chosen by a host
+   * @param options - The settings to check
+   * @returns Why the settings are invalid, or undefined if they are valid
+   */
+  checkRoomOptions(options: CreateRoomOptions): string | undefined {
+    const { maxSpeakers, reactions, visibility, allowedFids, password } = options;
+    if (maxSpeakers !== undefined && (!Number.isInteger(maxSpeakers) || maxSpeakers < 1)) {
+      return 'Stage size must be a positive integer';
+    }
+    if (visibility !== undefined && !VISIBILITIES.includes(visibility)) {
+      return `Visibility must be one of: ${VISIBILITIES.join(', ')}`;
+    }
+    if (allowedFids !== undefined
+      && (!Array.isArray(allowedFids) || allowedFids.some(fid => typeof fid !== 'string'))) {
+      return 'Allowed users must be a list of FIDs';
+    }
+    if (visibility === 'password' && (!password || typeof password !== 'string')) {
+      return 'Password-protected rooms need a password';
+    }
+    if (reactions !== undefined && !Array.isArray(reactions)) {
+      return 'Reactions must be a list of reaction codes';
+    }
+
+    const disallowed = this.findDisallowedReactions(reactions ?? []);
+    if (disallowed.length > 0) return `Reactions not allowed: ${disallowed.join(', ')}`;
+    return undefined;
+  }
+
+  /**
+   * Lists the reactions of a proposed room set that the server does not allow
+   * @param reactions - The reactions a host picked
+   * @returns The reactions missing from the server's allowed reactions
+   */
+  findDisallowedReactions(reactions: ReactionType[]): ReactionType[] {
+    return reactions.filter(reaction => !this.allowedReactions.includes(reaction));
+  }
+
+  /**
+   * Adds a chat message to a room's history, dropping the oldest message
+   * once the history is full
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the sender
+   * @param text - The text of the message
+   * @param replyTo - The ID of the message being replied to
+   * @returns The created message, or undefined if the room or the message replied to was not found
+   */
+  addMessage(roomId: string, fid: string, text: string, replyTo?: string): ChatMessage | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room) return undefined;
+    if (replyTo && !room.messages.some(message => message.id === replyTo)) return undefined;
+
+    const message: ChatMessage = { id: crypto.randomUUID(), fid, text, replyTo, timestamp: Date.now() };
+    room.messages.push(message);
+    if (room.messages.length > this.messageHistorySize) {
+      room.messages.shift();
+    }
+    this.persist(room);
+    return message;
+  }
+
+  /**
+   * Finds a chat message in a room's history
+   * @param roomId - The ID of the room
+   * @param messageId - The ID of the message
+   * @returns The message, or undefined if it is not in the history
+   */
+  getMessage(roomId: string, messageId: string): ChatMessage | undefined {
+    return this.rooms.get(roomId)?.messages.find(message => message.id === messageId);
+  }
+
+  /**
+   * Removes a chat message from a room's history
+   * @param roomId - The ID of the room
+   * @param messageId - The ID of the message
+   * @returns The removed message, or undefined if it was not in the history
+   */
+  deleteMessage(roomId: string, messageId: string): ChatMessage | undefined {
+    const room = this.rooms.get(roomId);
+    const index = room?.messages.findIndex(message => message.id === messageId) ?? -1;
+    if (!room || index === -1) return undefined;
+
+    const [message] = room.messages.splice(index, 1);
+    this.persist(room);
+    return message;
+  }
+
+  /**
+   * Lets a user into a room if its visibility allows it. Users already in
+   * the room, the host and allowed users always get in; an invite code is
+   * used up, and users admitted with a code or password are allowed from
+   * then on.
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the joining user
+   * @param access - The invite code or password the user sent
+   * @returns Why the user may not join, or undefined if they are admitted
+   */
+  admitUser(roomId: string, fid: string, access: RoomAccess = {}): string | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room) return 'Room not found';
+    if (this.isMember(room, fid) || room.visibility === 'public' || room.visibility === 'unlisted') {
+      return undefined;
+    }
+
+    if (room.visibility === 'invite-only') {
+      if (!access.inviteCode || !room.inviteCodes.delete(access.inviteCode)) return 'This room is invite-only';
+    } else {
+      if (!access.password) return 'This room requires a password';
+      if (!room.passwordHash || !verifyPassword(String(access.password), room.passwordHash)) {
+        return 'Incorrect room password';
+      }
+    }
+
+    room.allowedFids.add(fid);
+    this.persist(room);
+    return undefined;
+  }
+
+  /**
+   * Checks whether a room may be shown to a user in room listings.
+   * Only public rooms are listed to everyone; other rooms are listed to
+   * their host, the users in them and allowed users.
+   * @param room - The room, which may be owned by another cluster node
+   * @param fid - The FID of the user, if known
+   * @returns True if the room may be listed
+   */
+  canView(room: Room, fid?: string): boolean {
+    if (room.visibility === 'public') return true;
+    return fid !== undefined && this.isMember(room, fid);
+  }
+
+  /**
+   * Lets a user into a non-public room without a code or password
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user to allow
+   * @returns True if the room exists and is not public
+   */
+  allowUser(roomId: string, fid: string): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room || room.visibility === 'public') return false;
+
+    room.allowedFids.add(fid);
+    this.persist(room);
+    return true;
+  }
+
+  /**
+   * Creates a single-use invite code for an invite-only room
+   * @param roomId - The ID of the room
+   * @returns The invite code, or undefined if the room is not invite-only
+   */
+  createInviteCode(roomId: string): string | undefined {
+    const room = this.rooms.get(roomId);
+    if (room?.visibility !== 'invite-only') return undefined;
+
+    const code = randomBytes(9).toString('base64url');
+    room.inviteCodes.add(code);
+    this.persist(room);
+    return code;
+  }
+
   /**
    * Retrieves a room by its ID
    * @param roomId - The ID of the room to retrieve
@@ -74,53 +434,362 @@ export class RoomManager {
   }
 
   /**
-   * Marks a room as inactive/closed
+   * Checks whether a user may host another room on this node
+   * @param fid - The FID of the user
+   * @param leavingRoomId - A room the user is about to leave, which is not counted
+   * @returns True if the user hosts fewer active rooms than allowed
+   */
+  canHost(fid: string, leavingRoomId?: string): boolean {
+    const hosted = this.listRooms().filter(room => room.hostFid === fid && room.id !== leavingRoomId);
+    return hosted.length < this.maxRoomsPerHost;
+  }
+
+  /**
+   * Looks up a room that may be owned by another cluster node
+   * @param roomId - The ID of the room to find
+   * @returns The local room, else the stored copy, or undefined if not found
+   */
+  async findRoom(roomId: string): Promise<Room | undefined> {
+    const local = this.rooms.get(roomId);
+    if (local) return local;
+
+    const stored = await this.store.get(roomId);
+    return stored ? fromStoredRoom(stored) : undefined;
+  }
+
+  /**
+   * Lists the active rooms of every cluster node sharing the store
+   * @returns Array of active rooms, local ones first
+   */
+  async listAllRooms(): Promise<Room[]> {
+    const remote = (await this.store.load())
+      .filter(stored => stored.active && !this.rooms.has(stored.id))
+      .map(fromStoredRoom);
+    return [...this.listRooms(), ...remote];
+  }
+
+  /**
+   * Marks a room as inactive/closed and forgets it
    * @param roomId - The ID of the room to close
    */
   closeRoom(roomId: string): void {
     const room = this.rooms.get(roomId);
-    if (room) {
+    if (room?.active) {
       room.active = false;
+      clearTimeout(this.recoveryTimers.get(roomId));
+      this.recoveryTimers.delete(roomId);
+      this.store.delete(roomId).catch(error => {
+        console.error(`Failed to remove room ${roomId} from store`, error);
+      });
+      this.rooms.delete(roomId);
+      this.emit('room-updated', room);
+      this.emit('room-closed', room);
     }
   }
 
   /**
-   * Promotes a user to speaker role in a room
+   * Promotes a user to speaker role in a room, unless the stage is full
    * @param roomId - The ID of the room
    * @param fid - The FID of the user to promote
+   * @returns True if the user is on stage afterwards
    */
-  addSpeaker(roomId: string, fid: string): void {
+  addSpeaker(roomId: string, fid: string): boolean {
     const room = this.rooms.get(roomId);
-    if (room) {
-      room.speakers.add(fid);
-      room.listeners.delete(fid);
-      room.raisedHands.delete(fid);
+    if (!room) return false;
+    if (!room.speakers.has(fid)) {
+      if (this.isStageFull(roomId)) return false;
+      this.recordActivity(roomId, 'promoted', fid);
+    }
+
+    room.speakers.add(fid);
+    room.listeners.delete(fid);
+    room.raisedHands.delete(fid);
+    room.invitations.delete(fid);
+    this.persist(room);
+    return true;
+  }
+
+  /**
+   * Checks whether a room's stage has reached its maximum size
+   * @param roomId - The ID of the room
+   * @returns True if nobody else may join the stage
+   */
+  isStageFull(roomId: string): boolean {
+    const room = this.rooms.get(roomId);
+    return room ? room.speakers.size >= room.maxSpeakers : false;
+  }
+
+  /**
+   * Invites a listener to join the stage; they are promoted once they accept
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the listener
+   * @param invitedBy - The FID of the host or co-host sending the invitation
+   * @returns The invitation, or undefined if the user is not a listener
+   */
+  inviteSpeaker(roomId: string, fid: string, invitedBy: string): SpeakerInvitation | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room?.listeners.has(fid)) return undefined;
+
+    const invitation: SpeakerInvitation = { fid, invitedBy, timestamp: Date.now() };
+    room.invitations.set(fid, invitation);
+    this.persist(room);
+    return invitation;
+  }
+
+  /**
+   * Returns a listener's pending invitation to join the stage
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the listener
+   * @returns The invitation, or undefined if there is none
+   */
+  getInvitation(roomId: string, fid: string): SpeakerInvitation | undefined {
+    return this.rooms.get(roomId)?.invitations.get(fid);
+  }
+
+  /**
+   * Withdraws a listener's pending invitation to join the stage
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the listener
+   * @returns The withdrawn invitation, or undefined if there was none
+   */
+  removeInvitation(roomId: string, fid: string): SpeakerInvitation | undefined {
+    const room = this.rooms.get(roomId);
+    const invitation = room?.invitations.get(fid);
+    if (room && invitation) {
+      room.invitations.delete(fid);
+      this.persist(room);
     }
+    return invitation;
   }
 
   /**
    * Demotes a speaker to listener role in a room
    * @param roomId - The ID of the room
    * @param fid - The FID of the speaker to demote
+   * @returns True if the user was a speaker other than the host
+   */
+  removeSpeaker(roomId: string, fid: string): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room || fid === room.hostFid || !room.speakers.delete(fid)) return false;
+
+    this.recordActivity(roomId, 'demoted', fid);
+    room.coHosts.delete(fid);
+    room.muted.delete(fid);
+    room.listeners.add(fid);
+    this.persist(room);
+    return true;
+  }
+
+  /**
+   * Makes a user a co-host, bringing them on stage if there is room
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user to make co-host
+   * @returns True if the user is a co-host afterwards
+   */
+  addCoHost(roomId: string, fid: string): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room || fid === room.hostFid || !this.addSpeaker(roomId, fid)) return false;
+
+    room.coHosts.add(fid);
+    this.persist(room);
+    return true;
+  }
+
+  /**
+   * Revokes a user's co-host role; they stay on stage as a speaker
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the co-host
+   */
+  removeCoHost(roomId: string, fid: string): void {
+    const room = this.rooms.get(roomId);
+    if (room?.coHosts.delete(fid)) {
+      this.persist(room);
+    }
+  }
+
+  /**
+   * Hands hosting of a room to another user. The previous host stays on stage.
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the new host
+   * @returns True if the room exists and the user is a participant
+   */
+  transferHost(roomId: string, fid: string): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room || fid === room.hostFid) return false;
+    if (!room.speakers.has(fid) && !room.listeners.has(fid)) return false;
+
+    if (!room.speakers.has(fid)) this.recordActivity(roomId, 'promoted', fid);
+    room.hostFid = fid;
+    room.coHosts.delete(fid);
+    room.speakers.add(fid);
+    room.listeners.delete(fid);
+    room.raisedHands.delete(fid);
+    room.invitations.delete(fid);
+    this.persist(room);
+    return true;
+  }
+
+  /**
+   * Picks who should take over a room from its host: the first present
+   * co-host, otherwise the present speaker who has been on stage longest
+   * @param roomId - The ID of the room
+   * @param isPresent - Whether a user is still connected to the room
+   * @returns The FID of the successor, or undefined if nobody is eligible
    */
-  removeSpeaker(roomId: string, fid: string): void {
+  findSuccessor(roomId: string, isPresent: (fid: string) => boolean): string | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room) return undefined;
+
+    const eligible = (fid: string) => fid !== room.hostFid && isPresent(fid);
+    return Array.from(room.coHosts).find(eligible) ?? Array.from(room.speakers).find(eligible);
+  }
+
+  /**
+   * Returns the role of a user in a room
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user
+   * @returns The user's role; users without a stage role are listeners
+   */
+  getRole(roomId: string, fid: string): RoomRole {
+    return roleIn(this.rooms.get(roomId), fid);
+  }
+
+  /**
+   * Lists the users in a room with their roles and mute state, the stage first
+   * @param room - The room, which may be owned by another cluster node
+   * @returns The participants
+   */
+  listParticipants(room: Room): Participant[] {
+    return [...room.speakers, ...room.listeners].map(fid => ({
+      fid,
+      role: roleIn(room, fid),
+      muted: !room.speakers.has(fid) || room.muted.has(fid) || room.muteLocked.has(fid),
+      muteLocked: room.muteLocked.has(fid)
+    }));
+  }
+
+  /**
+   * Returns the role of a user in a room that may be closed or owned by
+   * another cluster node
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user
+   * @returns The user's role, or undefined if the room is unknown
+   */
+  async findRole(roomId: string, fid: string): Promise<RoomRole | undefined> {
+    const room = await this.findRoom(roomId);
+    return room ? roleIn(room, fid) : undefined;
+  }
+
+  /**
+   * Checks whether a user may moderate a room
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user
+   * @returns True for the host and co-hosts
+   */
+  canModerate(roomId: string, fid: string): boolean {
+    const role = this.getRole(roomId, fid);
+    return role === 'host' || role === 'co-host';
+  }
+
+  /**
+   * Checks whether a user may kick, ban or mute another user. The host can
+   * never be targeted, and only the host can target co-hosts.
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the moderating user
+   * @param targetFid - The FID of the targeted user
+   * @returns True if the action is allowed
+   */
+  canModerateUser(roomId: string, fid: string, targetFid: string): boolean {
+    if (fid === targetFid || !this.canModerate(roomId, fid)) return false;
+
+    const targetRole = this.getRole(roomId, targetFid);
+    return targetRole !== 'host' && (targetRole !== 'co-host' || this.getRole(roomId, fid) === 'host');
+  }
+
+  /**
+   * Removes a user from a room and keeps them from joining it again
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user to ban
+   */
+  banUser(roomId: string, fid: string): void {
     const room = this.rooms.get(roomId);
     if (room && fid !== room.hostFid) {
-      room.speakers.delete(fid);
-      room.listeners.add(fid);
+      room.banned.add(fid);
+      this.removeUser(roomId, fid);
+    }
+  }
+
+  /**
+   * Checks whether a user is banned from a room
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user
+   * @returns True if the user may not join
+   */
+  isBanned(roomId: string, fid: string): boolean {
+    return this.rooms.get(roomId)?.banned.has(fid) ?? false;
+  }
+
+  /**
+   * Keeps a user from unmuting until a moderator allows it
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the muted user
+   */
+  lockMute(roomId: string, fid: string): void {
+    const room = this.rooms.get(roomId);
+    if (room) {
+      room.muteLocked.add(fid);
+      this.persist(room);
+    }
+  }
+
+  /**
+   * Allows a user muted by a moderator to unmute again
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the muted user
+   */
+  unlockMute(roomId: string, fid: string): void {
+    const room = this.rooms.get(roomId);
+    if (room?.muteLocked.delete(fid)) {
+      this.persist(room);
     }
   }
 
   /**
-   * Adds a user to the raised hands list
+   * Checks whether a user was muted by a moderator
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user
+   * @returns True if the user may not unmute
+   */
+  isMuteLocked(roomId: string, fid: string): boolean {
+    return this.rooms.get(roomId)?.muteLocked.has(fid) ?? false;
+  }
+
+  /**
+   * Adds a user to the end of the speaker queue. Raising a hand that is
+   * already raised keeps its place.
    * @param roomId - The ID of the room
    * @param fid - The FID of the user raising their hand
+   * @returns When the hand was raised, or undefined if the user is on stage
    */
-  raiseHand(roomId: string, fid: string): void {
+  raiseHand(roomId: string, fid: string): number | undefined {
     const room = this.rooms.get(roomId);
-    if (room && !room.speakers.has(fid)) {
-      room.raisedHands.add(fid);
+    if (!room || room.speakers.has(fid)) return undefined;
+
+    if (!room.raisedHands.has(fid)) {
+      room.raisedHands.set(fid, Date.now());
+      this.persist(room);
     }
+    return room.raisedHands.get(fid);
+  }
+
+  /**
+   * Checks whether a user is waiting in a room's speaker queue
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user
+   * @returns True if the user's hand is raised
+   */
+  hasRaisedHand(roomId: string, fid: string): boolean {
+    return this.rooms.get(roomId)?.raisedHands.has(fid) ?? false;
   }
 
   /**
@@ -132,6 +801,100 @@ export class RoomManager {
     const room = this.rooms.get(roomId);
     if (room) {
       room.raisedHands.delete(fid);
+      this.persist(room);
     }
   }
+
+  /**
+   * Adds a joining user to a room. Users with a stage role keep it, the
+   * host is put back on stage and everyone else joins as a listener.
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the joining user
+   */
+  joinRoom(roomId: string, fid: string): void {
+    const room = this.rooms.get(roomId);
+    if (room) {
+      if (!room.speakers.has(fid) && !room.listeners.has(fid)) this.recordActivity(roomId, 'joined', fid);
+      if (fid === room.hostFid) {
+        room.speakers.add(fid);
+      } else if (!room.speakers.has(fid)) {
+        room.listeners.add(fid);
+      }
+      this.persist(room);
+    }
+  }
+
+  /**
+   * Removes a user who left a room from every role set. Hosting is not
+   * changed; hand it off with `transferHost` first.
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the leaving user
+   */
+  removeUser(roomId: string, fid: string): void {
+    const room = this.rooms.get(roomId);
+    if (room) {
+      if (room.speakers.delete(fid)) this.recordActivity(roomId, 'left', fid);
+      room.coHosts.delete(fid);
+      room.listeners.delete(fid);
+      room.muted.delete(fid);
+      room.raisedHands.delete(fid);
+      room.invitations.delete(fid);
+      this.persist(room);
+    }
+  }
+
+  /**
+   * Notes that a speaker muted or unmuted their audio
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the speaker
+   * @param muted - The new mute state
+   */
+  setMuted(roomId: string, fid: string, muted: boolean): void {
+    const room = this.rooms.get(roomId);
+    if (room?.speakers.has(fid)) {
+      if (muted) {
+        room.muted.add(fid);
+      } else {
+        room.muted.delete(fid);
+      }
+      this.recordActivity(roomId, muted ? 'muted' : 'unmuted', fid);
+      this.persist(room);
+    }
+  }
+
+  /**
+   * Emits a timestamped stage change
+   * @private
+   * @param roomId - The ID of the room
+   * @param type - What happened
+   * @param fid - The FID of the user concerned
+   */
+  private recordActivity(roomId: string, type: RoomActivityType, fid: string): void {
+    this.emit('activity', { roomId, type, fid, timestamp: Date.now() });
+  }
+
+  /**
+   * Checks whether a user is the host of a room, in it or allowed into it
+   * @private
+   * @param room - The room
+   * @param fid - The FID of the user
+   * @returns True if the user needs no code or password
+   */
+  private isMember(room: Room, fid: string): boolean {
+    return room.hostFid === fid || room.speakers.has(fid) || room.listeners.has(fid) || room.allowedFids.has(fid);
+  }
+
+  /**
+   * Writes a room through to the store without blocking the caller.
+   * Closed rooms are left out, as they were removed from the store.
+   * @private
+   * @param room - The room to persist
+   */
+  private persist(room: Room): void {
+    if (!room.active) return;
+    this.emit('room-updated', room);
+    this.store.save(toStoredRoom(room)).catch(error => {
+      console.error(`Failed to persist room ${room.id}`, error);
+    });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { ScheduledRoom, ScheduleDetails, ScheduleStore } from '../types/Schedule';
+import { MemoryScheduleStore } from '../store/MemoryScheduleStore';
+
+/** Longest description a scheduled room may have, in characters */
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+/** Time between two occurrences of a weekly room */
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * ScheduleManager keeps the rooms hosts planned for later and who plans to
+ * attend them. Every change is written through to the configured ScheduleStore.
+ */
+export class ScheduleManager {
+  private rooms: Map<string, ScheduledRoom> = new Map();
+  /** IDs of scheduled rooms whose host is going live right now */
+  private claimed: Set<string> = new Set();
+
+  /**
+   * Creates a new instance of ScheduleManager
+   * @param store - Where scheduled rooms are persisted, defaults to process memory
+   */
+  constructor(private store: ScheduleStore = new MemoryScheduleStore()) {}
+
+  /**
+   * Loads the scheduled rooms kept in the store
+   */
+  async restore() {
+    for (const room of await this.store.load()) {
+      this.rooms.set(room.id, room);
+    }
+  }
+
+  /**
+   * Plans a room for later
+   * @param hostFid - The FID of the host
+   * @param details - Name, start time and settings of the room
+   * @returns The scheduled room
+   * @throws Error if the details are invalid
+   */
+  schedule(hostFid: string, details: ScheduleDetails): ScheduledRoom {
+    if (!details.name || typeof details.name !== 'string') throw new Error('Room name is required');
+    if (!Number.isFinite(details.startsAt) || details.startsAt <= Date.now()) {
+      throw new Error('Start time must be in the future');
+    }
+    if (details.description !== undefined
+      && (typeof details.description !== 'string' || details.description.length > MAX_DESCRIPTION_LENGTH)) {
+      throw new Error(`Descriptions are limited to ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    if (details.tags !== undefined
+      && (!Array.isArray(details.tags) || details.tags.some(tag => typeof tag !== 'string'))) {
+      throw new Error('Tags must be a list of strings');
+    }
+    if (details.recurrence !== undefined && details.recurrence !== 'weekly') {
+      throw new Error('Unsupported recurrence');
+    }
+
+    const room: ScheduledRoom = {
+      id: crypto.randomUUID(),
+      hostFid,
+      name: details.name,
+      description: details.description,
+      tags: details.tags ?? [],
+      startsAt: details.startsAt,
+      recurrence: details.recurrence,
+      maxSpeakers: details.maxSpeakers,
+      reactions: details.reactions,
+      rsvps: [],
+      createdAt: Date.now()
+    };
+    this.rooms.set(room.id, room);
+    this.persist(room);
+    return room;
+  }
+
+  /**
+   * Retrieves a scheduled room by its ID
+   * @param roomId - The ID of the scheduled room
+   * @returns The scheduled room, or undefined if there is none
+   */
+  get(roomId: string): ScheduledRoom | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  /**
+   * Lists the rooms that have not gone live yet, soonest first
+   * @returns The scheduled rooms
+   */
+  listUpcoming(): ScheduledRoom[] {
+    return Array.from(this.rooms.values()).sort((a, b) => a.startsAt - b.startsAt);
+  }
+
+  /**
+   * Records whether a user plans to attend a scheduled room
+   * @param roomId - The ID of the scheduled room
+   * @param fid - The FID of the user
+   * @param attending - False to withdraw an earlier RSVP
+   * @returns The scheduled room, or undefined if there is none
+   */
+  rsvp(roomId: string, fid: string, attending: boolean): ScheduledRoom | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room) return undefined;
+
+    const rsvps = room.rsvps.filter(rsvp => rsvp !== fid);
+    room.rsvps = attending ? [...rsvps, fid] : rsvps;
+    this.persist(room);
+    return room;
+  }
+
+  /**
+   * Reserves a scheduled room while its host goes live, so that it cannot be
+   * started twice. Call `start` once the room is open, or `release` if it
+   * could not be opened.
+   * @param roomId - The ID of the scheduled room
+   * @param fid - The FID of the user going live
+   * @returns The scheduled room, or undefined if there is none, the user is not its host or it is already going live
+   */
+  claim(roomId: string, fid: string): ScheduledRoom | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room || room.hostFid !== fid || this.claimed.has(roomId)) return undefined;
+
+    this.claimed.add(roomId);
+    return room;
+  }
+
+  /**
+   * Gives up the reservation of a scheduled room that could not go live
+   * @param roomId - The ID of the scheduled room
+   */
+  release(roomId: string) {
+    this.claimed.delete(roomId);
+  }
+
+  /**
+   * Takes a scheduled room off the schedule because its host goes live.
+   * A weekly room is scheduled again for its next occurrence.
+   * @param roomId - The ID of the scheduled room
+   * @param fid - The FID of the user going live
+   * @returns The room that goes live, or undefined if there is none or the user is not its host
+   */
+  start(roomId: string, fid: string): ScheduledRoom | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room || room.hostFid !== fid) return undefined;
+
+    this.claimed.delete(roomId);
+    this.rooms.delete(roomId);
+    this.store.delete(roomId).catch(error => {
+      console.error(`Failed to remove scheduled room ${roomId} from store`, error);
+    });
+
+    if (room.recurrence === 'weekly') {
+      let startsAt = room.startsAt + WEEK_MS;
+      while (startsAt <= Date.now()) startsAt += WEEK_MS;
+      this.schedule(room.hostFid, { ...room, startsAt });
+    }
+    return room;
+  }
+
+  /**
+   * Writes a scheduled room to the store without blocking the caller
+   * @private
+   * @param room - The scheduled room to persist
+   */
+  private persist(room: ScheduledRoom): void {
+    this.store.save(room).catch(error => {
+      console.error(`Failed to persist scheduled room ${room.id}`, error);
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { Session } from '../types/Session';
+
+/**
+ * SessionManager issues session tokens for room members and keeps their
+ * sessions alive for a while after their socket drops, so that a new socket
+ * can resume them.
+ *
+ * Emits `session-expired` with the session when a disconnected session is
+ * not resumed in time.
+ */
+export class SessionManager extends EventEmitter {
+  private sessions: Map<string, Session> = new Map();
+  private expiryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  /**
+   * Creates a new instance of SessionManager
+   * @param timeoutMs - How long a disconnected session can be resumed
+   */
+  constructor(private timeoutMs: number = 30 * 1000) {
+    super();
+  }
+
+  /**
+   * Issues a session for a user who joined a room
+   * @param fid - The FID of the user
+   * @param roomId - The ID of the room
+   * @returns The new session
+   */
+  createSession(fid: string, roomId: string): Session {
+    const session: Session = {
+      token: randomBytes(32).toString('base64url'),
+      fid,
+      roomId
+    };
+    this.sessions.set(session.token, session);
+    return session;
+  }
+
+  /**
+   * Marks a session's socket as disconnected and starts its expiry timer
+   * @param token - The session token
+   */
+  markDisconnected(token: string): void {
+    const session = this.sessions.get(token);
+    if (!session) return;
+
+    session.expiresAt = Date.now() + this.timeoutMs;
+    const timer = setTimeout(() => {
+      this.endSession(token);
+      this.emit('session-expired', session);
+    }, this.timeoutMs);
+    timer.unref?.();
+    this.expiryTimers.set(token, timer);
+  }
+
+  /**
+   * Reattaches a disconnected session
+   * @param token - The session token
+   * @returns The session, or undefined if it is unknown, expired or still connected
+   */
+  resume(token: string): Session | undefined {
+    const session = this.sessions.get(token);
+    if (!session?.expiresAt) return undefined;
+
+    clearTimeout(this.expiryTimers.get(token));
+    this.expiryTimers.delete(token);
+    session.expiresAt = undefined;
+    return session;
+  }
+
+  /**
+   * Ends every session a user holds in a room, e.g. after they were removed from it
+   * @param fid - The FID of the user
+   * @param roomId - The ID of the room
+   */
+  endUserSessions(fid: string, roomId: string): void {
+    for (const session of this.sessions.values()) {
+      if (session.fid === fid && session.roomId === roomId) this.endSession(session.token);
+    }
+  }
+
+  /**
+   * Ends a session without emitting `session-expired`
+   * @param token - The session token
+   */
+  endSession(token: string): void {
+    clearTimeout(this.expiryTimers.get(token));
+    this.expiryTimers.delete(token);
+    this.sessions.delete(token);
+  }
+}
@@ -1,18 +1,148 @@
 import { Server, Socket } from 'socket.io';
-import { RoomManager } from './RoomManager';
-import { MediasoupBroadcaster } from '../broadcasters/MediasoupBroadcaster';
-import { User, Room, ReactionType } from '../types/Room';
+import { types } from 'mediasoup';
+import { RoomManager, RoomManagerOptions, CreateRoomOptions } from './RoomManager';
+import { SessionManager } from './SessionManager';
+import { ScheduleManager } from './ScheduleManager';
+import { RoomEventThrottle } from './RoomEventThrottle';
+import { RateLimiter, RateLimit } from './RateLimiter';
+import { ReactionBatcher, ReactionCounts } from './ReactionBatcher';
+import { MediasoupBroadcaster, MediasoupBroadcasterOptions } from '../broadcasters/MediasoupBroadcaster';
+import { RecordingManager, RecordingManagerOptions } from '../recording/RecordingManager';
+import { RoomArchive, RoomArchiveOptions } from '../archive/RoomArchive';
+import {
+  User, Room, ReactionType, RoomActivity, RoomRole, RaisedHand, ReactionStats, RoomVisibility, RoomAccess,
+  Participant
+} from '../types/Room';
+import { Authenticator, AuthCredentials, AuthResult } from '../types/Auth';
+import { TransportDirection, RoomMediaState, AudioLevel } from '../types/Media';
+import { ClusterOptions, ClusterNode } from '../types/Cluster';
+import { Session } from '../types/Session';
+import { RecordingMetadata, RecordingState } from '../types/Recording';
+import { ArchiveMedia } from '../types/Archive';
+import { AuditSink, AuditAction, AuditEntry, AuditQuery } from '../types/Audit';
+import { MessageFilter } from '../types/Chat';
+import { ScheduledRoom, ScheduleDetails, ScheduleStore } from '../types/Schedule';
+import { RoomPage, RoomQuery, RoomSummary } from '../types/Discovery';
+import { queryRooms, summarizeRoom } from './discovery';
+import { LobbyFeed } from './LobbyFeed';
+import { MemoryAuditSink } from '../audit/MemoryAuditSink';
+import { ClusterRoomStore } from '../cluster/ClusterRoomStore';
+import { createPubSubAdapter } from '../cluster/PubSubAdapter';
 
 interface SerializedRoom {
   id: string;
   name: string;
+  description?: string;
   tags: string[];
   hostFid: string;
+  coHosts: string[];
   speakers: string[];
   listeners: string[];
-  raisedHands: string[];
-  reactions: Array<{ type: string; fid: string; timestamp: number }>;
+  raisedHands: RaisedHand[];
+  maxSpeakers: number;
+  visibility: RoomVisibility;
+  reactionSet: string[];
+  reactions: Array<{ type: string; fid: string; timestamp: number; speakerFid?: string }>;
+  reactionTotals: ReactionStats['totals'];
+  topReactors: Array<{ fid: string; count: number }>;
+  speakerReactions: ReactionStats['bySpeaker'];
   active: boolean;
+  createdAt: number;
+  recovering: boolean;
+}
+
+/** Longest chat message a user may send, in characters */
+const MAX_MESSAGE_LENGTH = 500;
+
+/** Number of users listed in a room's `topReactors` */
+const TOP_REACTORS = 5;
+
+/** Socket.IO room of lobby subscribers without a tag filter; tag filters use `lobby:<tag>` */
+const LOBBY_CHANNEL = 'lobby';
+
+/**
+ * Names the lobby channels that hear about a room
+ * @param tags - The tags of the room
+ * @returns The unfiltered lobby channel and the channel of each tag
+ */
+function lobbyChannels(tags: string[]): string[] {
+  return [LOBBY_CHANNEL, ...tags.map(tag => `${LOBBY_CHANNEL}:${tag.toLowerCase()}`)];
+}
+
+/**
+ * Checks that an event payload is an object
+ * @param payload - The payload sent with the event
+ * @returns True for objects other than arrays and null
+ */
+function isObject(payload: unknown): boolean {
+  return typeof payload === 'object' && payload !== null && !Array.isArray(payload);
+}
+
+/**
+ * Checks that an optional event payload is left out or an object
+ * @param payload - The payload sent with the event
+ * @returns True if the payload is undefined or an object
+ */
+function isOptionalObject(payload: unknown): boolean {
+  return payload === undefined || isObject(payload);
+}
+
+/**
+ * Checks that an event payload is a non-empty string, e.g. an ID
+ * @param payload - The payload sent with the event
+ * @returns True for non-empty strings
+ */
+function isString(payload: unknown): boolean {
+  return typeof payload === 'string' && payload !== '';
+}
+
+/** Per-user limits of the events that broadcast to a room or allocate resources */
+const DEFAULT_RATE_LIMITS: Record<string, RateLimit> = {
+  'create-room': { capacity: 3, refillPerSecond: 1 / 60 },
+  'schedule-room': { capacity: 3, refillPerSecond: 1 / 60 },
+  'subscribe-lobby': { capacity: 5, refillPerSecond: 0.5 },
+  'create-transport': { capacity: 10, refillPerSecond: 1 },
+  'connect-transport': { capacity: 10, refillPerSecond: 1 },
+  'send-reaction': { capacity: 10, refillPerSecond: 2 },
+  'send-message': { capacity: 5, refillPerSecond: 1 },
+  'raise-hand': { capacity: 3, refillPerSecond: 0.2 },
+  'lower-hand': { capacity: 3, refillPerSecond: 0.2 }
+};
+
+/**
+ * Configuration for the SocketServer
+ */
+export interface SocketServerOptions {
+  /** Verifies credentials sent in the handshake and the `authenticate` event */
+  authenticator: Authenticator;
+  /** mediasoup worker pool and fan-out configuration */
+  media?: MediasoupBroadcasterOptions;
+  /** Room persistence and recovery configuration */
+  rooms?: RoomManagerOptions;
+  /** Shared state and pub/sub used when running several server instances */
+  cluster?: ClusterOptions;
+  /** How long a disconnected host has to come back before hosting is handed off */
+  hostGracePeriodMs?: number;
+  /** How long a dropped socket's session can be resumed */
+  sessionTimeoutMs?: number;
+  /** Where room recordings are written */
+  recording?: RecordingManagerOptions;
+  /** Where closed rooms are archived and how their timelines are captured */
+  archive?: RoomArchiveOptions;
+  /** Minimum time between two `audio-levels` or `active-speaker` broadcasts to a room */
+  audioLevelIntervalMs?: number;
+  /** How long reactions are collected before a room receives them as one `reactions-batch` */
+  reactionBatchIntervalMs?: number;
+  /** Minimum time between two `lobby-update` broadcasts to lobby subscribers */
+  lobbyUpdateIntervalMs?: number;
+  /** Where privileged actions are logged, defaults to process memory */
+  audit?: AuditSink;
+  /** Checks chat messages before they are broadcast; all messages pass without one */
+  messageFilter?: MessageFilter;
+  /** Where scheduled rooms are persisted, defaults to process memory */
+  schedule?: ScheduleStore;
+  /** Per-user token buckets by event name, replacing the defaults of the same events */
+  rateLimits?: Record<string, RateLimit>;
 }
 
 /**
@@ -23,16 +153,145 @@ export class SocketServer {
   private io: Server;
   private roomManager: RoomManager;
   private broadcaster: MediasoupBroadcaster;
+  private sessionManager: SessionManager;
+  private scheduleManager: ScheduleManager;
+  private recordingManager: RecordingManager;
+  private archive: RoomArchive;
+  private audioEvents: RoomEventThrottle;
+  private reactionBatches: ReactionBatcher;
+  private lobbyFeed: LobbyFeed;
+  private auditSink: AuditSink;
+  private messageFilter?: MessageFilter;
+  private rateLimiter: RateLimiter;
+  private authenticator: Authenticator;
+  private cluster?: ClusterOptions;
+  private hostGracePeriodMs: number;
+  private hostHandoffTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private roomLeavers: Map<string, () => Promise<void>> = new Map();
+  private roomForgetters: Map<string, (roomId: string) => void> = new Map();
 
   /**
    * Creates a new instance of SocketServer
    * @param io - The Socket.IO server instance
+   * @param options - Server configuration
    */
-  constructor(io: Server) {
+  constructor(io: Server, options: SocketServerOptions) {
     this.io = io;
-    this.roomManager = new RoomManager();
-    this.broadcaster = new MediasoupBroadcaster();
+    this.cluster = options.cluster;
+    this.roomManager = new RoomManager(this.cluster
+      ? { ...options.rooms, store: new ClusterRoomStore(this.cluster.state), nodeId: this.cluster.node.id }
+      : options.rooms);
+    this.broadcaster = new MediasoupBroadcaster(options.media);
+    this.sessionManager = new SessionManager(options.sessionTimeoutMs);
+    this.scheduleManager = new ScheduleManager(options.schedule);
+    this.recordingManager = new RecordingManager(this.broadcaster, options.recording);
+    this.archive = new RoomArchive(options.archive);
+    this.auditSink = options.audit ?? new MemoryAuditSink();
+    this.messageFilter = options.messageFilter;
+    this.rateLimiter = new RateLimiter({ ...DEFAULT_RATE_LIMITS, ...options.rateLimits });
+    this.audioEvents = new RoomEventThrottle(options.audioLevelIntervalMs ?? 500, (roomId, event, payload) => {
+      this.io.to(roomId).emit(event, payload);
+    });
+    this.reactionBatches = new ReactionBatcher(options.reactionBatchIntervalMs ?? 500, (roomId, counts) => {
+      this.broadcastReactions(roomId, counts);
+    });
+    this.lobbyFeed = new LobbyFeed(options.lobbyUpdateIntervalMs ?? 1000, (tags, changes) => {
+      this.io.to(lobbyChannels(tags)).emit('lobby-update', changes);
+    });
+    this.authenticator = options.authenticator;
+    this.hostGracePeriodMs = options.hostGracePeriodMs ?? 30 * 1000;
+    this.setupAuthMiddleware();
     this.setupSocketHandlers();
+
+    // Relay broadcasts such as `lobby-update` to sockets on the other nodes
+    if (this.cluster) {
+      this.io.adapter(createPubSubAdapter(this.cluster.pubsub));
+    }
+
+    this.broadcaster.on('router-reset', (roomId: string) => {
+      this.io.to(roomId).emit('media-reset');
+    });
+
+    this.broadcaster.on('audio-levels', (roomId: string, levels: AudioLevel[]) => {
+      this.audioEvents.push(roomId, 'audio-levels', { levels });
+    });
+
+    this.broadcaster.on('active-speaker', (roomId: string, fid: string) => {
+      this.audioEvents.push(roomId, 'active-speaker', { fid, speakingTime: this.broadcaster.getSpeakingTime(roomId) });
+    });
+
+    this.recordingManager.on('recording-failed', (roomId: string) => {
+      this.finishRecording(roomId).then(recording => {
+        if (!recording) return;
+        const state: RecordingState = { roomId, recording: false, recordingId: recording.id, error: 'Recording failed' };
+        this.io.to(roomId).emit('recording-state', state);
+      }).catch(error => {
+        console.error(`Failed to stop recording of room ${roomId}`, error);
+      });
+    });
+
+    this.roomManager.on('recovery-expired', (roomId: string) => {
+      this.notifyRoomClosed(roomId);
+    });
+
+    this.roomManager.on('activity', (activity: RoomActivity) => {
+      this.recordingManager.recordActivity(activity);
+      this.archive.recordActivity(activity);
+    });
+
+    this.roomManager.on('room-created', (room: Room) => this.archive.open(room));
+
+    this.roomManager.on('room-updated', (room: Room) => this.lobbyFeed.update(room));
+
+    this.roomManager.on('room-closed', (room: Room) => {
+      this.audioEvents.clear(room.id);
+      this.reactionBatches.clear(room.id);
+      this.archive.close(room).catch(error => {
+        console.error(`Failed to archive room ${room.id}`, error);
+      });
+    });
+
+    this.sessionManager.on('session-expired', ({ fid, roomId }: Session) => {
+      this.removeParticipant(roomId, fid);
+    });
+  }
+
+  /**
+   * Starts the media workers, registers this node with the cluster and
+   * restores persisted rooms. Must resolve before rooms can carry audio.
+   */
+  async init() {
+    await this.broadcaster.init();
+    if (this.cluster) {
+      await this.cluster.state.set(`node:${this.cluster.node.id}`, JSON.stringify(this.cluster.node));
+    }
+    await this.roomManager.restore();
+    await this.scheduleManager.restore();
+  }
+
+  /**
+   * Verifies credentials sent in the Socket.IO handshake (`auth` option).
+   * Sockets presenting invalid credentials are refused; sockets without
+   * credentials must send an `authenticate` event before using any handler.
+   * @private
+   */
+  private setupAuthMiddleware() {
+    this.io.use(async (socket, next) => {
+      const credentials = socket.handshake.auth as Partial<AuthCredentials>;
+      if (!credentials?.fid) return next();
+
+      try {
+        const result = await this.authenticator.authenticate(credentials as AuthCredentials);
+        if (!result.success) {
+          return next(new Error(result.reason));
+        }
+
+        socket.data.user = result.user;
+        next();
+      } catch (error) {
+        next(new Error('Authentication failed'));
+      }
+    });
   }
 
   /**
@@ -45,13 +304,26 @@ export class SocketServer {
     return {
       id: room.id,
       name: room.name,
+      description: room.description,
       tags: room.tags,
       hostFid: room.hostFid,
+      coHosts: Array.from(room.coHosts),
       speakers: Array.from(room.speakers),
       listeners: Array.from(room.listeners),
-      raisedHands: Array.from(room.raisedHands),
+      raisedHands: Array.from(room.raisedHands, ([fid, raisedAt]) => ({ fid, raisedAt })),
+      maxSpeakers: room.maxSpeakers,
+      visibility: room.visibility,
+      reactionSet: room.reactionSet,
       reactions: room.reactions,
-      active: room.active
+      reactionTotals: room.reactionStats.totals,
+      topReactors: Object.entries(room.reactionStats.byReactor)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, TOP_REACTORS)
+        .map(([fid, count]) => ({ fid, count })),
+      speakerReactions: room.reactionStats.bySpeaker,
+      active: room.active,
+      createdAt: room.createdAt,
+      recovering: room.recoveringUntil !== undefined
     };
   }
 
@@ -62,16 +334,167 @@ export class SocketServer {
    */
   private setupSocketHandlers() {
     this.io.on('connection', (socket: Socket) => {
-      let currentUser: User;
+      let currentUser: User = socket.data.user;
       let currentRoom: Room | undefined;
+      let session: Session | undefined;
+
+      // Refuse events beyond the user's rate limit before any handler runs
+      socket.use(([event], next) => {
+        const retryAfterMs = this.rateLimiter.consume(currentUser?.fid ?? socket.id, event);
+        if (retryAfterMs === 0) return next();
+
+        socket.emit('error', { message: 'Too many requests', code: 'rate-limited', event, retryAfterMs });
+      });
+
+      /**
+       * Issues a fresh session for the room the socket just joined
+       * @param roomId - The ID of the joined room
+       * @returns The session token to hand to the client
+       */
+      const startSession = (roomId: string): string => {
+        if (session) this.sessionManager.endSession(session.token);
+        session = this.sessionManager.createSession(currentUser.fid, roomId);
+        return session.token;
+      };
+
+      /**
+       * Stops lobby updates to the socket, e.g. once it is in a room
+       */
+      const leaveLobby = () => {
+        for (const channel of socket.rooms) {
+          if (channel === LOBBY_CHANNEL || channel.startsWith(`${LOBBY_CHANNEL}:`)) socket.leave(channel);
+        }
+      };
+
+      /**
+       * Takes the socket out of a room and ends its session there, if it is
+       * the socket's current room
+       * @param roomId - The ID of the room
+       */
+      const forgetRoom = (roomId: string) => {
+        if (currentRoom?.id !== roomId) return;
+
+        currentRoom = undefined;
+        if (session) {
+          this.sessionManager.endSession(session.token);
+          session = undefined;
+        }
+        socket.leave(roomId);
+      };
+      this.roomForgetters.set(socket.id, forgetRoom);
+
+      /**
+       * Leaves the socket's current room, handing hosting off right away
+       * if the user was its host
+       */
+      const leaveCurrentRoom = async () => {
+        if (!currentRoom) return;
+
+        const roomId = currentRoom.id;
+        forgetRoom(roomId);
+
+        if (this.roomManager.getRoom(roomId)?.hostFid === currentUser.fid) {
+          this.cancelHostHandoff(roomId);
+          await this.handOffHost(roomId, currentUser.fid, 'host-left');
+        }
+        await this.removeParticipant(roomId, currentUser.fid);
+      };
+      this.roomLeavers.set(socket.id, leaveCurrentRoom);
+
+      /**
+       * Registers an event handler. A handler that fails unexpectedly is logged
+       * and reported to the socket instead of rejecting unhandled.
+       * @param event - The event name
+       * @param handler - The handler
+       */
+      const on = <Args extends unknown[]>(event: string, handler: (...args: Args) => unknown) => {
+        socket.on(event, async (...args: Args) => {
+          try {
+            await handler(...args);
+          } catch (error) {
+            console.error(`Failed to handle ${event} from socket ${socket.id}`, error);
+            socket.emit('error', { message: 'Request failed', event });
+          }
+        });
+      };
+
+      /**
+       * Registers an event handler that only runs for payloads of the expected
+       * shape; other payloads are answered with an `Invalid request` error
+       * @param event - The event name
+       * @param accepts - Checks the payload
+       * @param handler - The handler
+       */
+      const onValid = <Args extends unknown[]>(
+        event: string,
+        accepts: (...args: unknown[]) => boolean,
+        handler: (...args: Args) => unknown
+      ) => {
+        on(event, (...args: unknown[]) => {
+          if (!accepts(...args)) {
+            socket.emit('error', { message: 'Invalid request', event });
+            return undefined;
+          }
+          return handler(...args as Args);
+        });
+      };
+
+      /**
+       * Opens a new room hosted by the user and moves the socket into it
+       * @param name - The name of the room
+       * @param tags - Tags for the room
+       * @param options - Per-room settings
+       * @returns The room, or undefined if it could not be opened
+       */
+      const hostRoom = async (name: string, tags: string[], options: CreateRoomOptions): Promise<Room | undefined> => {
+        if (!this.roomManager.canHost(currentUser.fid, currentRoom?.id)) {
+          socket.emit('error', { message: 'You are hosting too many rooms' });
+          return undefined;
+        }
+
+        await leaveCurrentRoom();
+
+        let room: Room;
+        try {
+          room = await this.openRoom(currentUser, name, tags, options);
+        } catch (error) {
+          socket.emit('error', { message: (error as Error).message });
+          return undefined;
+        }
+
+        leaveLobby();
+        socket.join(room.id);
+        currentRoom = room;
+
+        socket.emit('room-created', this.serializeRoom(room));
+        socket.emit('joined-room', {
+          role: 'host',
+          room: this.serializeRoom(room),
+          messages: room.messages,
+          sessionToken: startSession(room.id)
+        });
+        return room;
+      };
 
       /**
        * Handles user authentication
        * @event authenticate
-       * @param fid - The user's FID (Federation ID)
+       * @param credentials - The user's FID and a signed message or token proving ownership
        */
-      socket.on('authenticate', async (fid: string) => {
-        currentUser = { fid };
+      on('authenticate', async (credentials: AuthCredentials) => {
+        let result: AuthResult;
+        try {
+          result = await this.authenticator.authenticate(credentials ?? {});
+        } catch (error) {
+          result = { success: false, reason: 'Authentication failed' };
+        }
+        if (!result.success) {
+          socket.emit('authenticated', { success: false, reason: result.reason });
+          return;
+        }
+
+        currentUser = result.user;
+        socket.data.user = result.user;
         socket.emit('authenticated', { success: true });
       });
 
@@ -81,203 +504,1470 @@ export class SocketServer {
        * @param payload - Object containing room details
        * @param payload.name - The name for the new room
        * @param payload.tags - Array of tags for the room
+       * @param payload.maxSpeakers - Maximum number of users on stage, the host included
+       * @param payload.reactions - Reactions that may be sent in the room, from the server's allowed reactions
        */
-      socket.on('create-room', ({ name, tags = [] }: { name: string; tags?: string[] }) => {
+      onValid('create-room', isObject, async ({ name, tags = [], maxSpeakers, reactions, visibility, allowedFids, password }: {
+        name?: string;
+        tags?: string[];
+        maxSpeakers?: number;
+        reactions?: string[];
+        visibility?: RoomVisibility;
+        allowedFids?: string[];
+        password?: string;
+      }) => {
         if (!currentUser) return;
         if (!name || typeof name !== 'string') {
           socket.emit('error', { message: 'Room name is required' });
           return;
         }
+        if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+          socket.emit('error', { message: 'Tags must be a list of strings' });
+          return;
+        }
 
-        const room = this.roomManager.createRoom(currentUser, name, tags);
-        socket.join(room.id);
-        currentRoom = room;
+        const options = { maxSpeakers, reactions, visibility, allowedFids, password };
+        const problem = this.roomManager.checkRoomOptions(options);
+        if (problem) {
+          socket.emit('error', { message: problem });
+          return;
+        }
 
-        this.io.emit('room-created', this.serializeRoom(room));
-        socket.emit('joined-room', {
-          role: 'host',
-          room: this.serializeRoom(room)
-        });
+        await hostRoom(name, tags, options);
       });
 
       /**
-       * Handles joining an existing room
-       * @event join-room
-       * @param roomId - The ID of the room to join
+       * Handles planning a room for later
+       * @event schedule-room
+       * @param details - Name, start time, description, tags, recurrence and room settings
        */
-      socket.on('join-room', (roomId: string) => {
+      onValid('schedule-room', isObject, (details: ScheduleDetails) => {
         if (!currentUser) return;
 
-        const room = this.roomManager.getRoom(roomId);
-        if (!room || !room.active) {
-          socket.emit('error', { message: 'Room not found or inactive' });
+        try {
+          this.scheduleRoom(currentUser.fid, details);
+        } catch (error) {
+          socket.emit('error', { message: (error as Error).message });
+        }
+      });
+
+      /**
+       * Handles RSVPs to scheduled rooms
+       * @event rsvp-room
+       * @param payload - Object containing the RSVP
+       * @param payload.roomId - The ID of the scheduled room
+       * @param payload.attending - False to withdraw an earlier RSVP
+       */
+      onValid('rsvp-room', isObject, ({ roomId, attending = true }: { roomId?: string; attending?: boolean }) => {
+        if (!currentUser) return;
+        if (typeof roomId !== 'string') {
+          socket.emit('error', { message: 'Scheduled room not found' });
           return;
         }
 
-        socket.join(roomId);
-        currentRoom = room;
+        const scheduled = this.scheduleManager.rsvp(roomId, currentUser.fid, attending !== false);
+        if (!scheduled) {
+          socket.emit('error', { message: 'Scheduled room not found' });
+          return;
+        }
 
-        const role = room.speakers.has(currentUser.fid) ? 'speaker' : 'listener';
-        room.listeners.add(currentUser.fid);
+        socket.emit('rsvp-updated', { roomId, attending: attending !== false, rsvpCount: scheduled.rsvps.length });
+      });
 
-        socket.emit('joined-room', {
-          role,
-          room: this.serializeRoom(room)
+      /**
+       * Handles the host of a scheduled room going live; RSVP'd users who
+       * are connected are told the room is starting
+       * @event go-live
+       * @param roomId - The ID of the scheduled room
+       */
+      onValid('go-live', isString, async (roomId: string) => {
+        if (!currentUser) return;
+
+        const scheduled = this.scheduleManager.get(roomId);
+        if (!scheduled || scheduled.hostFid !== currentUser.fid) {
+          socket.emit('error', { message: 'Only the host can start a scheduled room' });
+          return;
+        }
+        if (!this.scheduleManager.claim(roomId, currentUser.fid)) {
+          socket.emit('error', { message: 'Room is already going live' });
+          return;
+        }
+
+        const room = await hostRoom(scheduled.name, scheduled.tags, {
+          id: scheduled.id,
+          description: scheduled.description,
+          maxSpeakers: scheduled.maxSpeakers,
+          reactions: scheduled.reactions
         });
-        this.io.to(roomId).emit('user-joined', { fid: currentUser.fid, role });
+        if (!room) {
+          this.scheduleManager.release(roomId);
+          return;
+        }
+        this.scheduleManager.start(roomId, currentUser.fid);
+
+        const attendees = scheduled.rsvps.filter(fid => fid !== currentUser.fid);
+        await this.emitToConnectedUsers(attendees, 'room-starting', { room: this.serializeRoom(room) });
       });
 
       /**
-       * Handles hand raising requests
-       * @event raise-hand
+       * Handles subscribing to lobby updates. Sockets in a room get none;
+       * joining a room ends the subscription.
+       * @event subscribe-lobby
+       * @param payload - Object containing the filter
+       * @param payload.tags - Only rooms with one of these tags
        */
-      socket.on('raise-hand', () => {
-        if (!currentUser || !currentRoom) return;
+      onValid('subscribe-lobby', isOptionalObject, async ({ tags = [] }: { tags?: string[] } = {}) => {
+        if (!currentUser) return;
+        if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+          socket.emit('error', { message: 'Tags must be a list of strings' });
+          return;
+        }
+        if (currentRoom) {
+          socket.emit('error', { message: 'Leave the room to follow the lobby' });
+          return;
+        }
 
-        this.roomManager.raiseHand(currentRoom.id, currentUser.fid);
-        this.io.to(currentRoom.id).emit('hand-raised', { fid: currentUser.fid });
+        leaveLobby();
+        socket.join(tags.length > 0 ? lobbyChannels(tags).slice(1) : LOBBY_CHANNEL);
+        socket.emit('lobby-snapshot', await this.discoverRooms({ tags, view: 'summary', limit: 100 }));
       });
 
       /**
-       * Handles hand lowering requests
-       * @event lower-hand
+       * Handles unsubscribing from lobby updates
+       * @event unsubscribe-lobby
        */
-      socket.on('lower-hand', () => {
-        if (!currentUser || !currentRoom) return;
-
-        this.roomManager.lowerHand(currentRoom.id, currentUser.fid);
-        this.io.to(currentRoom.id).emit('hand-lowered', { fid: currentUser.fid });
+      on('unsubscribe-lobby', () => {
+        leaveLobby();
       });
 
+      // A join names the room and may carry access details
+      const isJoinRequest = (roomId: unknown, access: unknown) => isString(roomId) && isOptionalObject(access);
+
       /**
-       * Handles promoting a user to speaker
-       * @event promote-to-speaker
-       * @param targetFid - The FID of the user to promote
+       * Handles joining an existing room
+       * @event join-room
+       * @param roomId - The ID of the room to join
+       * @param access - The invite code or password of a room that is not public
        */
-      socket.on('promote-to-speaker', (targetFid: string) => {
-        if (!currentUser || !currentRoom) return;
+      onValid('join-room', isJoinRequest, async (roomId: string, access: RoomAccess = {}) => {
+        if (!currentUser) return;
 
-        if (currentRoom.hostFid !== currentUser.fid) {
-          socket.emit('error', { message: 'Only host can promote speakers' });
+        const room = this.roomManager.getRoom(roomId);
+        if (room && this.roomManager.isBanned(roomId, currentUser.fid)) {
+          socket.emit('error', { message: 'You are banned from this room' });
           return;
         }
 
-        this.roomManager.addSpeaker(currentRoom.id, targetFid);
-        this.io.to(currentRoom.id).emit('user-promoted', { fid: targetFid });
-      });
+        if (!room || !room.active) {
+          // Media for a room stays on the node that owns its router
+          const redirect = await this.findOwnerNode(roomId);
+          if (redirect) {
+            socket.emit('room-redirect', { roomId, nodeId: redirect.id, url: redirect.url });
+            return;
+          }
 
-      /**
-       * Handles demoting a speaker to listener
-       * @event demote-speaker
-       * @param targetFid - The FID of the speaker to demote
-       */
-      socket.on('demote-speaker', (targetFid: string) => {
-        if (!currentUser || !currentRoom) return;
+          socket.emit('error', { message: 'Room not found or inactive' });
+          return;
+        }
 
-        if (currentRoom.hostFid !== currentUser.fid) {
-          socket.emit('error', { message: 'Only host can demote speakers' });
+        const denied = this.roomManager.admitUser(roomId, currentUser.fid, access ?? {});
+        if (denied) {
+          socket.emit('error', { message: denied });
           return;
         }
 
-        this.roomManager.removeSpeaker(currentRoom.id, targetFid);
-        this.io.to(currentRoom.id).emit('user-demoted', { fid: targetFid });
+        // Switching rooms leaves the previous one first
+        if (currentRoom && currentRoom.id !== roomId) {
+          await leaveCurrentRoom();
+        }
+
+        // The host reclaims a room restored after a restart
+        const reclaiming = room.recoveringUntil !== undefined && room.hostFid === currentUser.fid;
+        if (reclaiming) {
+          try {
+            await this.broadcaster.createRoomRouter(roomId);
+          } catch (error) {
+            socket.emit('error', { message: 'Failed to create room media' });
+            return;
+          }
+          this.roomManager.reclaimRoom(roomId, currentUser.fid);
+        }
+
+        leaveLobby();
+        socket.join(roomId);
+        currentRoom = room;
+
+        // The host is back before hosting was handed off
+        if (room.hostFid === currentUser.fid) {
+          this.cancelHostHandoff(roomId);
+        }
+
+        const role = this.roomManager.getRole(roomId, currentUser.fid);
+        this.roomManager.joinRoom(roomId, currentUser.fid);
+
+        socket.emit('joined-room', {
+          role,
+          room: this.serializeRoom(room),
+          producers: Array.from(room.speakers).filter(fid => this.broadcaster.hasProducer(fid)),
+          messages: room.messages,
+          sessionToken: startSession(roomId)
+        });
+        this.io.to(roomId).emit('user-joined', { fid: currentUser.fid, role });
+        if (this.recordingManager.isRecording(roomId)) {
+          socket.emit('recording-state', this.recordingManager.getState(roomId));
+        }
+        if (reclaiming) {
+          this.io.to(roomId).emit('room-recovered', this.serializeRoom(room));
+        }
       });
 
       /**
-       * Handles mute/unmute requests
-       * @event toggle-mute
-       * @param muted - The desired mute state
+       * Handles a moderator letting a user into a non-public room
+       * @event allow-user
+       * @param targetFid - The FID of the user to allow
        */
-      socket.on('toggle-mute', async (muted: boolean) => {
+      onValid('allow-user', isString, (targetFid: string) => {
         if (!currentUser || !currentRoom) return;
 
-        if (!currentRoom.speakers.has(currentUser.fid)) {
-          socket.emit('error', { message: 'Only speakers can toggle mute' });
+        if (!this.roomManager.canModerate(currentRoom.id, currentUser.fid)) {
+          socket.emit('error', { message: 'Only host or co-hosts can invite users' });
           return;
         }
 
-        try {
-          const isMuted = await this.broadcaster.toggleMute(currentUser.fid, muted);
-          this.io.to(currentRoom.id).emit('user-muted', { fid: currentUser.fid, muted: isMuted });
-        } catch (error) {
-          socket.emit('error', { message: 'Failed to toggle mute' });
+        if (!targetFid || !this.roomManager.allowUser(currentRoom.id, targetFid)) {
+          socket.emit('error', { message: 'Public rooms are open to everyone' });
+          return;
         }
+
+        this.audit(currentRoom.id, currentUser.fid, 'invite-to-room', targetFid);
+        socket.emit('user-allowed', { roomId: currentRoom.id, fid: targetFid });
       });
 
       /**
-       * Handles WebRTC transport connection
-       * @event connect-transport
-       * @param transportId - The ID of the transport to connect
+       * Handles a moderator creating a single-use invite code
+       * @event create-invite-code
        */
-      socket.on('connect-transport', async () => {
-        try {
-          const transport = await this.broadcaster.createTransport(currentUser);
-          socket.emit('transport-connected', transport);
-        } catch (error) {
-          socket.emit('error', { message: 'Failed to connect transport' });
+      on('create-invite-code', () => {
+        if (!currentUser || !currentRoom) return;
+
+        if (!this.roomManager.canModerate(currentRoom.id, currentUser.fid)) {
+          socket.emit('error', { message: 'Only host or co-hosts can invite users' });
+          return;
+        }
+
+        const code = this.roomManager.createInviteCode(currentRoom.id);
+        if (!code) {
+          socket.emit('error', { message: 'Invite codes are only used by invite-only rooms' });
+          return;
         }
+
+        this.audit(currentRoom.id, currentUser.fid, 'invite-to-room');
+        socket.emit('invite-code-created', { roomId: currentRoom.id, code });
       });
 
       /**
-       * Handles consumer creation for media streams
-       * @event start-consuming
-       * @param producerFid - The FID of the user producing the media
+       * Handles leaving the current room
+       * @event leave-room
        */
-      socket.on('start-consuming', async ({ producerFid }) => {
+      on('leave-room', async () => {
         if (!currentUser || !currentRoom) return;
 
-        try {
-          const consumerData = await this.broadcaster.createConsumer(currentUser.fid, producerFid);
-          socket.emit('consumer-created', consumerData);
-        } catch (error) {
-          socket.emit('error', { message: 'Failed to create consumer' });
-        }
+        const roomId = currentRoom.id;
+        await leaveCurrentRoom();
+        socket.emit('left-room', { roomId });
       });
 
       /**
-       * Handles user reactions in a room
-       * @event send-reaction
-       * @param type - The type of reaction
+       * Handles resuming a session after the client reconnected
+       * @event resume-session
+       * @param payload - Object containing the session token
+       * @param payload.token - The token received in `joined-room`
        */
-      socket.on('send-reaction', (type: string) => {
-        if (!currentUser || !currentRoom) return;
-
-        // Validate that the type is a valid ReactionType
-        const validReactionTypes: ReactionType[] = ['like', 'laugh', 'clap', 'fire', 'heart'];
-        if (!validReactionTypes.includes(type as ReactionType)) {
-          socket.emit('error', { message: 'Invalid reaction type' });
+      onValid('resume-session', isOptionalObject, async ({ token }: { token?: string } = {}) => {
+        if (typeof token !== 'string') {
+          socket.emit('session-resume-failed', { reason: 'Session token is required' });
           return;
         }
 
-        const reaction = this.roomManager.addReaction(currentRoom.id, currentUser.fid, type as ReactionType);
-        if (reaction) {
-          this.io.to(currentRoom.id).emit('reaction-received', reaction);
+        const resumed = this.sessionManager.resume(token);
+        if (!resumed || (currentUser && currentUser.fid !== resumed.fid)) {
+          socket.emit('session-resume-failed', { reason: 'Session expired or unknown' });
+          return;
         }
-      });
 
-      /**
-       * Handles user disconnection
-       * @event disconnect
-       */
-      socket.on('disconnect', async () => {
-        if (currentRoom?.hostFid === currentUser?.fid) {
-          this.roomManager.closeRoom(currentRoom.id);
-          this.io.to(currentRoom.id).emit('room-closed');
+        const room = this.roomManager.getRoom(resumed.roomId);
+        if (!room?.active) {
+          this.sessionManager.endSession(token);
+          socket.emit('session-resume-failed', { reason: 'Room closed' });
+          return;
+        }
+        if (this.roomManager.isBanned(room.id, resumed.fid)) {
+          this.sessionManager.endSession(token);
+          socket.emit('session-resume-failed', { reason: 'You are banned from this room' });
+          return;
         }
 
-        if (currentUser && currentRoom) {
-          await this.broadcaster.stopBroadcasting(currentUser.fid);
-          this.io.to(currentRoom.id).emit('user-left', { fid: currentUser.fid });
+        if (currentRoom && currentRoom.id !== room.id) {
+          await leaveCurrentRoom();
         }
-      });
-    });
-  }
 
-  /**
-   * Lists all active rooms in serialized format
+        // The session token proves the identity the socket authenticated with before
+        currentUser = { fid: resumed.fid };
+        socket.data.user = currentUser;
+        currentRoom = room;
+        session = resumed;
+        leaveLobby();
+        socket.join(room.id);
+
+        if (room.hostFid === resumed.fid) {
+          this.cancelHostHandoff(room.id);
+        }
+
+        socket.emit('session-resumed', {
+          role: this.roomManager.getRole(room.id, resumed.fid),
+          room: this.serializeRoom(room),
+          producers: Array.from(room.speakers).filter(fid => this.broadcaster.hasProducer(fid)),
+          messages: room.messages,
+          sessionToken: token
+        });
+        socket.to(room.id).emit('presence-changed', { fid: resumed.fid, state: 'connected' });
+        if (this.recordingManager.isRecording(room.id)) {
+          socket.emit('recording-state', this.recordingManager.getState(room.id));
+        }
+      });
+
+      /**
+       * Handles hand raising requests
+       * @event raise-hand
+       */
+      on('raise-hand', () => {
+        if (!currentUser || !currentRoom) return;
+
+        const raisedAt = this.roomManager.raiseHand(currentRoom.id, currentUser.fid);
+        if (raisedAt === undefined) return;
+
+        this.io.to(currentRoom.id).emit('hand-raised', { fid: currentUser.fid, raisedAt });
+      });
+
+      /**
+       * Handles hand lowering requests
+       * @event lower-hand
+       */
+      on('lower-hand', () => {
+        if (!currentUser || !currentRoom) return;
+
+        this.roomManager.lowerHand(currentRoom.id, currentUser.fid);
+        this.io.to(currentRoom.id).emit('hand-lowered', { fid: currentUser.fid });
+      });
+
+      /**
+       * Handles promoting a user from the speaker queue
+       * @event promote-to-speaker
+       * @param targetFid - The FID of the user to promote; their hand must be raised
+       */
+      onValid('promote-to-speaker', isString, (targetFid: string) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (!this.roomManager.canModerate(currentRoom.id, currentUser.fid)) {
+          socket.emit('error', { message: 'Only host or co-hosts can promote speakers' });
+          return;
+        }
+
+        if (!this.roomManager.hasRaisedHand(currentRoom.id, targetFid)) {
+          socket.emit('error', { message: 'User has not raised their hand; invite them to speak instead' });
+          return;
+        }
+
+        if (!this.roomManager.addSpeaker(currentRoom.id, targetFid)) {
+          socket.emit('error', { message: 'Stage is full' });
+          return;
+        }
+
+        this.audit(currentRoom.id, currentUser.fid, 'promote', targetFid);
+        this.io.to(currentRoom.id).emit('user-promoted', { fid: targetFid });
+      });
+
+      /**
+       * Handles inviting a listener to the stage; they are promoted once they accept
+       * @event invite-to-speak
+       * @param targetFid - The FID of the listener to invite
+       */
+      onValid('invite-to-speak', isString, async (targetFid: string) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (!this.roomManager.canModerate(currentRoom.id, currentUser.fid)) {
+          socket.emit('error', { message: 'Only host or co-hosts can invite speakers' });
+          return;
+        }
+
+        if (this.roomManager.isStageFull(currentRoom.id)) {
+          socket.emit('error', { message: 'Stage is full' });
+          return;
+        }
+
+        const roomId = currentRoom.id;
+        const invitation = this.roomManager.inviteSpeaker(roomId, targetFid, currentUser.fid);
+        if (!invitation) {
+          socket.emit('error', { message: 'Only listeners can be invited to speak' });
+          return;
+        }
+
+        this.audit(roomId, currentUser.fid, 'invite-to-speak', targetFid);
+        await this.emitToUser(roomId, targetFid, 'speaker-invitation', { roomId, ...invitation });
+      });
+
+      /**
+       * Handles a listener accepting their invitation to the stage
+       * @event accept-speaker-invitation
+       */
+      on('accept-speaker-invitation', () => {
+        if (!currentUser || !currentRoom) return;
+
+        const invitation = this.roomManager.getInvitation(currentRoom.id, currentUser.fid);
+        if (!invitation) {
+          socket.emit('error', { message: 'No pending invitation to speak' });
+          return;
+        }
+
+        if (!this.roomManager.addSpeaker(currentRoom.id, currentUser.fid)) {
+          this.roomManager.removeInvitation(currentRoom.id, currentUser.fid);
+          socket.emit('error', { message: 'Stage is full' });
+          return;
+        }
+
+        this.io.to(currentRoom.id).emit('user-promoted', { fid: currentUser.fid, invitedBy: invitation.invitedBy });
+      });
+
+      /**
+       * Handles a listener declining their invitation to the stage
+       * @event decline-speaker-invitation
+       */
+      on('decline-speaker-invitation', async () => {
+        if (!currentUser || !currentRoom) return;
+
+        const roomId = currentRoom.id;
+        const invitation = this.roomManager.removeInvitation(roomId, currentUser.fid);
+        if (!invitation) return;
+
+        await this.emitToUser(roomId, invitation.invitedBy, 'speaker-invitation-declined', { fid: currentUser.fid });
+      });
+
+      /**
+       * Handles demoting a speaker to listener
+       * @event demote-speaker
+       * @param targetFid - The FID of the speaker to demote
+       */
+      onValid('demote-speaker', isString, async (targetFid: string) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (!this.roomManager.canModerateUser(currentRoom.id, currentUser.fid, targetFid)) {
+          socket.emit('error', { message: 'Not allowed to moderate this user' });
+          return;
+        }
+
+        const roomId = currentRoom.id;
+        if (!this.roomManager.removeSpeaker(roomId, targetFid)) {
+          socket.emit('error', { message: 'User is not a speaker' });
+          return;
+        }
+
+        await this.broadcaster.stopProducing(targetFid);
+        this.audit(roomId, currentUser.fid, 'demote', targetFid);
+        await this.emitToUser(roomId, targetFid, 'demoted', { roomId, by: currentUser.fid });
+        this.io.to(roomId).emit('user-demoted', { fid: targetFid });
+      });
+
+      /**
+       * Handles making a user co-host
+       * @event add-co-host
+       * @param targetFid - The FID of the user to make co-host
+       */
+      onValid('add-co-host', isString, (targetFid: string) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (currentRoom.hostFid !== currentUser.fid) {
+          socket.emit('error', { message: 'Only host can add co-hosts' });
+          return;
+        }
+
+        if (!this.roomManager.addCoHost(currentRoom.id, targetFid)) {
+          socket.emit('error', { message: targetFid === currentRoom.hostFid ? 'Host cannot be a co-host' : 'Stage is full' });
+          return;
+        }
+
+        this.audit(currentRoom.id, currentUser.fid, 'add-co-host', targetFid);
+        this.io.to(currentRoom.id).emit('co-host-added', { fid: targetFid });
+      });
+
+      /**
+       * Handles revoking a user's co-host role
+       * @event remove-co-host
+       * @param targetFid - The FID of the co-host
+       */
+      onValid('remove-co-host', isString, (targetFid: string) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (currentRoom.hostFid !== currentUser.fid) {
+          socket.emit('error', { message: 'Only host can remove co-hosts' });
+          return;
+        }
+
+        this.roomManager.removeCoHost(currentRoom.id, targetFid);
+        this.audit(currentRoom.id, currentUser.fid, 'remove-co-host', targetFid);
+        this.io.to(currentRoom.id).emit('co-host-removed', { fid: targetFid });
+      });
+
+      /**
+       * Handles handing hosting of the room to another participant
+       * @event transfer-host
+       * @param targetFid - The FID of the new host
+       */
+      onValid('transfer-host', isString, (targetFid: string) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (currentRoom.hostFid !== currentUser.fid) {
+          socket.emit('error', { message: 'Only host can transfer hosting' });
+          return;
+        }
+
+        if (!this.roomManager.transferHost(currentRoom.id, targetFid)) {
+          socket.emit('error', { message: 'New host must be in the room' });
+          return;
+        }
+
+        this.audit(currentRoom.id, currentUser.fid, 'transfer-host', targetFid);
+        this.io.to(currentRoom.id).emit('host-changed', {
+          fid: targetFid,
+          previousFid: currentUser.fid,
+          reason: 'transferred'
+        });
+      });
+
+      /**
+       * Handles removing a user from the room; they may join again
+       * @event kick-user
+       * @param targetFid - The FID of the user to kick
+       */
+      onValid('kick-user', isString, async (targetFid: string) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (!this.roomManager.canModerateUser(currentRoom.id, currentUser.fid, targetFid)) {
+          socket.emit('error', { message: 'Not allowed to moderate this user' });
+          return;
+        }
+
+        const roomId = currentRoom.id;
+        await this.removeFromRoom(roomId, targetFid, 'kicked', { roomId, by: currentUser.fid });
+        this.announceModeration(roomId, 'kick', currentUser.fid, targetFid);
+      });
+
+      /**
+       * Handles removing a user from the room and keeping them out
+       * @event ban-user
+       * @param targetFid - The FID of the user to ban
+       */
+      onValid('ban-user', isString, async (targetFid: string) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (!this.roomManager.canModerateUser(currentRoom.id, currentUser.fid, targetFid)) {
+          socket.emit('error', { message: 'Not allowed to moderate this user' });
+          return;
+        }
+
+        const roomId = currentRoom.id;
+        this.roomManager.banUser(roomId, targetFid);
+        await this.removeFromRoom(roomId, targetFid, 'banned', { roomId, by: currentUser.fid });
+        this.announceModeration(roomId, 'ban', currentUser.fid, targetFid);
+      });
+
+      /**
+       * Handles muting a speaker, who may not unmute until allowed
+       * @event mute-user
+       * @param targetFid - The FID of the speaker to mute
+       */
+      onValid('mute-user', isString, async (targetFid: string) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (!this.roomManager.canModerateUser(currentRoom.id, currentUser.fid, targetFid)) {
+          socket.emit('error', { message: 'Not allowed to moderate this user' });
+          return;
+        }
+
+        const roomId = currentRoom.id;
+        this.roomManager.lockMute(roomId, targetFid);
+        await this.forceMute(roomId, targetFid);
+        await this.emitToUser(roomId, targetFid, 'force-muted', { roomId, by: currentUser.fid, locked: true });
+        this.announceModeration(roomId, 'mute', currentUser.fid, targetFid);
+      });
+
+      /**
+       * Handles allowing a speaker muted by a moderator to unmute again
+       * @event allow-unmute
+       * @param targetFid - The FID of the muted speaker
+       */
+      onValid('allow-unmute', isString, async (targetFid: string) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (!this.roomManager.canModerateUser(currentRoom.id, currentUser.fid, targetFid)) {
+          socket.emit('error', { message: 'Not allowed to moderate this user' });
+          return;
+        }
+
+        const roomId = currentRoom.id;
+        this.roomManager.unlockMute(roomId, targetFid);
+        await this.emitToUser(roomId, targetFid, 'unmute-allowed', { roomId, by: currentUser.fid });
+        this.announceModeration(roomId, 'allow-unmute', currentUser.fid, targetFid);
+      });
+
+      /**
+       * Handles muting every speaker except the moderator; they may unmute again
+       * @event mute-all
+       */
+      on('mute-all', async () => {
+        if (!currentUser || !currentRoom) return;
+
+        if (!this.roomManager.canModerate(currentRoom.id, currentUser.fid)) {
+          socket.emit('error', { message: 'Only host or co-hosts can mute the room' });
+          return;
+        }
+
+        const roomId = currentRoom.id;
+        const targets = Array.from(currentRoom.speakers)
+          .filter(fid => this.roomManager.canModerateUser(roomId, currentUser.fid, fid));
+        for (const fid of targets) {
+          await this.forceMute(roomId, fid);
+          await this.emitToUser(roomId, fid, 'force-muted', { roomId, by: currentUser.fid, locked: false });
+        }
+        this.announceModeration(roomId, 'mute-all', currentUser.fid);
+      });
+
+      /**
+       * Handles mute/unmute requests
+       * @event toggle-mute
+       * @param muted - The desired mute state
+       */
+      onValid('toggle-mute', muted => typeof muted === 'boolean', async (muted: boolean) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (!currentRoom.speakers.has(currentUser.fid)) {
+          socket.emit('error', { message: 'Only speakers can toggle mute' });
+          return;
+        }
+        if (!muted && this.roomManager.isMuteLocked(currentRoom.id, currentUser.fid)) {
+          socket.emit('error', { message: 'You were muted by a moderator' });
+          return;
+        }
+
+        try {
+          const isMuted = await this.broadcaster.toggleMute(currentUser.fid, muted);
+          this.roomManager.setMuted(currentRoom.id, currentUser.fid, isMuted);
+          this.io.to(currentRoom.id).emit('user-muted', { fid: currentUser.fid, muted: isMuted });
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to toggle mute' });
+        }
+      });
+
+      /**
+       * Handles requests for the router's RTP capabilities
+       * @event get-router-capabilities
+       */
+      on('get-router-capabilities', () => {
+        if (!currentUser || !currentRoom) return;
+
+        try {
+          socket.emit('router-capabilities', this.broadcaster.getRouterCapabilities(currentRoom.id));
+        } catch (error) {
+          socket.emit('error', { message: 'Media router not ready' });
+        }
+      });
+
+      /**
+       * Handles WebRTC transport creation
+       * @event create-transport
+       * @param payload - Object containing transport details
+       * @param payload.direction - 'send' for publishing audio, 'recv' for consuming it
+       */
+      onValid('create-transport', isOptionalObject, async ({ direction = 'send' }: { direction?: TransportDirection } = {}) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (direction !== 'send' && direction !== 'recv') {
+          socket.emit('error', { message: 'Invalid transport direction' });
+          return;
+        }
+
+        try {
+          const transport = await this.broadcaster.createTransport(currentUser, currentRoom.id, direction);
+          socket.emit('transport-created', transport);
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to create transport' });
+        }
+      });
+
+      /**
+       * Handles ICE restarts on an existing transport, e.g. after reconnecting
+       * @event restart-ice
+       * @param payload - Object containing the transport ID
+       * @param payload.transportId - The ID of the transport
+       */
+      onValid('restart-ice', isObject, async ({ transportId }: { transportId?: string }) => {
+        if (!currentUser || !currentRoom) return;
+
+        try {
+          if (typeof transportId !== 'string') throw new Error('Transport not found');
+          const iceParameters = await this.broadcaster.restartIce(currentUser.fid, transportId);
+          socket.emit('ice-restarted', { transportId, iceParameters });
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to restart ICE' });
+        }
+      });
+
+      /**
+       * Handles WebRTC transport connection
+       * @event connect-transport
+       * @param payload - Object containing connection details
+       * @param payload.transportId - The ID of the transport to connect
+       * @param payload.dtlsParameters - The client's DTLS parameters
+       */
+      onValid('connect-transport', isObject, async ({ transportId, dtlsParameters }: { transportId?: string; dtlsParameters?: types.DtlsParameters }) => {
+        if (!currentUser || !currentRoom) return;
+
+        try {
+          if (typeof transportId !== 'string' || !dtlsParameters) throw new Error('Transport not found');
+          await this.broadcaster.connectTransport(currentUser.fid, transportId, dtlsParameters);
+          socket.emit('transport-connected', { transportId });
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to connect transport' });
+        }
+      });
+
+      /**
+       * Handles audio publishing from a speaker
+       * @event produce
+       * @param payload - Object containing producer details
+       * @param payload.transportId - The ID of the send transport
+       * @param payload.rtpParameters - RTP parameters for the producer
+       */
+      onValid('produce', isObject, async ({ transportId, rtpParameters }: { transportId?: string; rtpParameters?: types.RtpParameters }) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (!currentRoom.speakers.has(currentUser.fid)) {
+          socket.emit('error', { message: 'Only speakers can produce audio' });
+          return;
+        }
+
+        try {
+          if (typeof transportId !== 'string' || !rtpParameters) throw new Error('Transport not found');
+          const producerId = await this.broadcaster.handleProducer(currentUser, transportId, rtpParameters);
+          if (this.roomManager.isMuteLocked(currentRoom.id, currentUser.fid)) {
+            await this.broadcaster.toggleMute(currentUser.fid, true);
+          }
+          socket.emit('produced', { producerId });
+          socket.to(currentRoom.id).emit('new-producer', { fid: currentUser.fid, producerId });
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to produce' });
+          return;
+        }
+
+        try {
+          await this.recordingManager.addTrack(currentRoom.id, currentUser.fid);
+        } catch (error) {
+          console.error(`Failed to record ${currentUser.fid} in room ${currentRoom.id}`, error);
+        }
+      });
+
+      /**
+       * Handles starting a recording of the current room (host only)
+       * @event start-recording
+       */
+      on('start-recording', async () => {
+        if (!currentUser || !currentRoom) return;
+
+        if (currentRoom.hostFid !== currentUser.fid) {
+          socket.emit('error', { message: 'Only the host can record the room' });
+          return;
+        }
+        if (this.recordingManager.isRecording(currentRoom.id)) {
+          socket.emit('error', { message: 'Room is already being recorded' });
+          return;
+        }
+
+        try {
+          await this.recordingManager.start(currentRoom.id, Array.from(currentRoom.speakers));
+          this.audit(currentRoom.id, currentUser.fid, 'start-recording');
+          this.io.to(currentRoom.id).emit('recording-state', this.recordingManager.getState(currentRoom.id));
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to start recording' });
+        }
+      });
+
+      /**
+       * Handles stopping the current room's recording (host only)
+       * @event stop-recording
+       */
+      on('stop-recording', async () => {
+        if (!currentUser || !currentRoom) return;
+
+        if (currentRoom.hostFid !== currentUser.fid) {
+          socket.emit('error', { message: 'Only the host can record the room' });
+          return;
+        }
+
+        try {
+          const recording = await this.finishRecording(currentRoom.id);
+          if (!recording) {
+            socket.emit('error', { message: 'Room is not being recorded' });
+            return;
+          }
+          this.audit(currentRoom.id, currentUser.fid, 'stop-recording');
+          this.io.to(currentRoom.id).emit('recording-state', { roomId: currentRoom.id, recording: false, recordingId: recording.id });
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to stop recording' });
+        }
+      });
+
+      /**
+       * Handles consumer creation for media streams
+       * @event start-consuming
+       * @param payload - Object containing consumer details
+       * @param payload.producerFid - The FID of the user producing the media
+       * @param payload.rtpCapabilities - The client device's RTP capabilities
+       */
+      onValid('start-consuming', isObject, async ({ producerFid, rtpCapabilities }: { producerFid?: string; rtpCapabilities?: types.RtpCapabilities }) => {
+        if (!currentUser || !currentRoom) return;
+
+        try {
+          if (typeof producerFid !== 'string' || !rtpCapabilities) throw new Error('Producer not found');
+          const consumerData = await this.broadcaster.createConsumer(currentUser.fid, producerFid, rtpCapabilities);
+          socket.emit('consumer-created', consumerData);
+        } catch (error) {
+          socket.emit('error', { message: `Failed to create consumer: ${(error as Error).message}` });
+        }
+      });
+
+      /**
+       * Handles resuming a paused consumer once the client is ready
+       * @event resume-consumer
+       * @param payload - Object containing the consumer ID
+       * @param payload.consumerId - The ID of the consumer to resume
+       */
+      onValid('resume-consumer', isObject, async ({ consumerId }: { consumerId?: string }) => {
+        if (!currentUser || !currentRoom) return;
+
+        try {
+          if (typeof consumerId !== 'string') throw new Error('Consumer not found');
+          await this.broadcaster.resumeConsumer(currentUser.fid, consumerId);
+          socket.emit('consumer-resumed', { consumerId });
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to resume consumer' });
+        }
+      });
+
+      /**
+       * Handles user reactions in a room
+       * @event send-reaction
+       * @param type - The type of reaction
+       */
+      on('send-reaction', (type: ReactionType) => {
+        if (!currentUser || !currentRoom) return;
+
+        const speakerFid = this.broadcaster.getActiveSpeaker(currentRoom.id);
+        const reaction = this.roomManager.addReaction(currentRoom.id, currentUser.fid, type, speakerFid);
+        if (!reaction) {
+          socket.emit('error', { message: 'Invalid reaction type' });
+          return;
+        }
+
+        this.reactionBatches.add(currentRoom.id, reaction.type);
+        this.archive.recordReactions(currentRoom);
+      });
+
+      /**
+       * Handles chat messages; every participant may chat, listeners included
+       * @event send-message
+       * @param payload - Object containing the message
+       * @param payload.text - The text of the message
+       * @param payload.replyTo - The ID of the message being replied to
+       */
+      onValid('send-message', isObject, async ({ text, replyTo }: { text?: string; replyTo?: string }) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (typeof text !== 'string' || !text.trim()) {
+          socket.emit('error', { message: 'Message text is required' });
+          return;
+        }
+        if (text.length > MAX_MESSAGE_LENGTH) {
+          socket.emit('error', { message: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters` });
+          return;
+        }
+
+        const roomId = currentRoom.id;
+        const fid = currentUser.fid;
+        const result = this.messageFilter
+          ? await this.messageFilter.check(roomId, fid, text)
+          : { allowed: true as const, text };
+        if (!result.allowed) {
+          socket.emit('error', { message: result.reason });
+          return;
+        }
+
+        const message = this.roomManager.addMessage(roomId, fid, result.text, replyTo);
+        if (!message) {
+          socket.emit('error', { message: 'Message to reply to not found' });
+          return;
+        }
+
+        this.io.to(roomId).emit('message-received', message);
+      });
+
+      /**
+       * Handles removing a chat message from the room (host and co-hosts only)
+       * @event delete-message
+       * @param messageId - The ID of the message to remove
+       */
+      onValid('delete-message', isString, (messageId: string) => {
+        if (!currentUser || !currentRoom) return;
+
+        if (!this.roomManager.canModerate(currentRoom.id, currentUser.fid)) {
+          socket.emit('error', { message: 'Only host or co-hosts can delete messages' });
+          return;
+        }
+
+        const message = this.roomManager.deleteMessage(currentRoom.id, messageId);
+        if (!message) {
+          socket.emit('error', { message: 'Message not found' });
+          return;
+        }
+
+        this.audit(currentRoom.id, currentUser.fid, 'delete-message', message.fid);
+        this.io.to(currentRoom.id).emit('message-deleted', { id: message.id, by: currentUser.fid });
+      });
+
+      /**
+       * Handles user disconnection
+       * @event disconnect
+       */
+      on('disconnect', () => {
+        this.roomLeavers.delete(socket.id);
+        this.roomForgetters.delete(socket.id);
+
+        if (currentUser && currentRoom?.hostFid === currentUser.fid) {
+          this.scheduleHostHandoff(currentRoom.id, currentUser.fid);
+        }
+
+        // Media stays up while the session can still be resumed
+        if (currentUser && currentRoom && session) {
+          this.sessionManager.markDisconnected(session.token);
+          this.io.to(currentRoom.id).emit('presence-changed', { fid: currentUser.fid, state: 'reconnecting' });
+        }
+      });
+    });
+  }
+
+  /**
+   * Stops a pending host handoff because the host came back
+   * @private
+   * @param roomId - The ID of the room
+   */
+  private cancelHostHandoff(roomId: string) {
+    clearTimeout(this.hostHandoffTimers.get(roomId));
+    this.hostHandoffTimers.delete(roomId);
+  }
+
+  /**
+   * Gives a disconnected host the grace period to come back before hosting
+   * is handed off
+   * @private
+   * @param roomId - The ID of the room
+   * @param hostFid - The FID of the disconnected host
+   */
+  private scheduleHostHandoff(roomId: string, hostFid: string) {
+    clearTimeout(this.hostHandoffTimers.get(roomId));
+
+    const timer = setTimeout(() => {
+      this.hostHandoffTimers.delete(roomId);
+      this.handOffHost(roomId, hostFid, 'host-disconnected');
+    }, this.hostGracePeriodMs);
+    timer.unref?.();
+
+    this.hostHandoffTimers.set(roomId, timer);
+  }
+
+  /**
+   * Hands a room whose host is gone to a present co-host or the
+   * longest-tenured speaker. The room is closed if nobody is eligible.
+   * @private
+   * @param roomId - The ID of the room
+   * @param hostFid - The FID of the departed host
+   * @param reason - Why the host is gone
+   */
+  private async handOffHost(roomId: string, hostFid: string, reason: 'host-disconnected' | 'host-left') {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room?.active || room.hostFid !== hostFid) return;
+
+    const sockets = await this.io.in(roomId).fetchSockets();
+    const present = new Set(sockets.map(s => s.data.user?.fid));
+    if (present.has(hostFid)) return;
+
+    const successor = this.roomManager.findSuccessor(roomId, fid => present.has(fid));
+    if (successor && this.roomManager.transferHost(roomId, successor)) {
+      this.io.to(roomId).emit('host-changed', { fid: successor, previousFid: hostFid, reason });
+      return;
+    }
+
+    await this.shutDownRoom(roomId, hostFid);
+  }
+
+  /**
+   * Creates a room on this node along with its media router
+   * @private
+   * @param host - The user who will host the room
+   * @param name - The name of the room
+   * @param tags - Tags for the room
+   * @param options - Per-room settings
+   * @returns The new room
+   * @throws Error if the settings are invalid or the room's media could not be set up
+   */
+  private async openRoom(host: User, name: string, tags: string[], options: CreateRoomOptions): Promise<Room> {
+    const room = this.roomManager.createRoom(host, name, tags, options);
+    try {
+      await this.broadcaster.createRoomRouter(room.id);
+    } catch (error) {
+      this.roomManager.closeRoom(room.id);
+      throw new Error('Failed to create room media');
+    }
+    return room;
+  }
+
+  /**
+   * Closes a room of this node, its recording and its media, and tells its sockets
+   * @private
+   * @param roomId - The ID of the room
+   * @param actorFid - The FID of the user the closure is logged for
+   */
+  private async shutDownRoom(roomId: string, actorFid: string) {
+    await this.finishRecording(roomId);
+    this.roomManager.closeRoom(roomId);
+    this.audit(roomId, actorFid, 'close-room');
+    await this.broadcaster.closeRoomRouter(roomId);
+    this.notifyRoomClosed(roomId);
+  }
+
+  /**
+   * Tells the sockets of a closed room and takes them out of it, so they
+   * can follow the lobby or join another room
+   * @private
+   * @param roomId - The ID of the room
+   */
+  private notifyRoomClosed(roomId: string) {
+    this.io.to(roomId).emit('room-closed');
+    this.roomForgetters.forEach(forgetRoom => forgetRoom(roomId));
+  }
+
+  /**
+   * Sends an event to every connected socket of the given users, in any room or none
+   * @private
+   * @param fids - The FIDs of the users
+   * @param event - The event name
+   * @param payload - The event payload
+   */
+  private async emitToConnectedUsers(fids: string[], event: string, payload: unknown) {
+    if (fids.length === 0) return;
+
+    const sockets = await this.io.fetchSockets();
+    sockets.filter(s => fids.includes(s.data.user?.fid)).forEach(s => s.emit(event, payload));
+  }
+
+  /**
+   * Sends an event to every socket a user has in a room
+   * @private
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user
+   * @param event - The event name
+   * @param payload - The event payload
+   */
+  private async emitToUser(roomId: string, fid: string, event: string, payload: unknown) {
+    const sockets = await this.io.in(roomId).fetchSockets();
+    sockets.filter(s => s.data.user?.fid === fid).forEach(s => s.emit(event, payload));
+  }
+
+  /**
+   * Makes a user leave a room on moderator request. Their sockets are told
+   * why and taken out of the room; a disconnected user loses their session.
+   * @private
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user
+   * @param event - The event telling the user why they were removed
+   * @param payload - The event payload
+   */
+  private async removeFromRoom(roomId: string, fid: string, event: string, payload: unknown) {
+    const sockets = (await this.io.in(roomId).fetchSockets()).filter(s => s.data.user?.fid === fid);
+    for (const target of sockets) {
+      target.emit(event, payload);
+      await this.roomLeavers.get(target.id)?.();
+    }
+
+    if (sockets.length === 0) {
+      this.sessionManager.endUserSessions(fid, roomId);
+      await this.removeParticipant(roomId, fid);
+    }
+  }
+
+  /**
+   * Pauses a speaker's audio on moderator request
+   * @private
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the speaker
+   */
+  private async forceMute(roomId: string, fid: string) {
+    if (this.broadcaster.hasProducer(fid)) {
+      await this.broadcaster.toggleMute(fid, true);
+    }
+    this.roomManager.setMuted(roomId, fid, true);
+    this.io.to(roomId).emit('user-muted', { fid, muted: true });
+  }
+
+  /**
+   * Tells a room that a moderator acted and logs the action
+   * @private
+   * @param roomId - The ID of the room
+   * @param action - What the moderator did
+   * @param by - The FID of the moderator
+   * @param targetFid - The FID of the user acted on, if any
+   */
+  private announceModeration(roomId: string, action: AuditAction, by: string, targetFid?: string) {
+    this.audit(roomId, by, action, targetFid);
+    this.io.to(roomId).emit('moderation', { action, by, targetFid, timestamp: Date.now() });
+  }
+
+  /**
+   * Sends a room the reactions collected during one batching window,
+   * along with its running totals
+   * @private
+   * @param roomId - The ID of the room
+   * @param counts - Reactions sent per type during the window
+   */
+  private broadcastReactions(roomId: string, counts: ReactionCounts) {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) return;
+
+    this.io.to(roomId).emit('reactions-batch', {
+      counts,
+      totals: room.reactionStats.totals,
+      speakerFid: this.broadcaster.getActiveSpeaker(roomId)
+    });
+  }
+
+  /**
+   * Appends a privileged action to the audit log without blocking the caller
+   * @private
+   * @param roomId - The ID of the room
+   * @param actorFid - The FID of the user who took the action
+   * @param action - What was done
+   * @param targetFid - The FID of the user the action was taken on, if any
+   */
+  private audit(roomId: string, actorFid: string, action: AuditAction, targetFid?: string) {
+    this.auditSink.append({ roomId, actorFid, targetFid, action, timestamp: Date.now() }).catch(error => {
+      console.error(`Failed to write audit entry for room ${roomId}`, error);
+    });
+  }
+
+  /**
+   * Stops a room's recording and attaches its tracks to the room's archive entry
+   * @private
+   * @param roomId - The ID of the room
+   * @returns The finished recording's metadata, or undefined if the room was not being recorded
+   */
+  private async finishRecording(roomId: string): Promise<RecordingMetadata | undefined> {
+    const recording = await this.recordingManager.stop(roomId);
+    if (!recording) return undefined;
+
+    for (const track of recording.tracks) {
+      await this.archive.attachMedia(roomId, {
+        file: this.recordingManager.getFilePath(recording.id, track.file),
+        mimeType: 'audio/ogg',
+        label: track.fid,
+        startedAt: track.startedAt
+      });
+    }
+    return recording;
+  }
+
+  /**
+   * Removes a user who left a room from its participants and tears down
+   * their media
+   * @private
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the leaving user
+   */
+  private async removeParticipant(roomId: string, fid: string) {
+    this.roomManager.removeUser(roomId, fid);
+    await this.broadcaster.stopBroadcasting(fid);
+    this.io.to(roomId).emit('user-left', { fid });
+  }
+
+  /**
+   * Finds the cluster node hosting an active room owned by another node
+   * @private
+   * @param roomId - The ID of the room
+   * @returns The owner node, or undefined if the room is local, unknown or closed
+   */
+  private async findOwnerNode(roomId: string): Promise<ClusterNode | undefined> {
+    if (!this.cluster) return undefined;
+
+    const room = await this.roomManager.findRoom(roomId);
+    if (!room?.active || !room.ownerNodeId || room.ownerNodeId === this.cluster.node.id) {
+      return undefined;
+    }
+
+    const node = await this.cluster.state.get(`node:${room.ownerNodeId}`);
+    return node ? JSON.parse(node) as ClusterNode : { id: room.ownerNodeId };
+  }
+
+  /**
+   * Plans a room for later and announces it to every connected client
+   * @param hostFid - The FID of the host
+   * @param details - Name, start time, description, tags, recurrence and room settings
+   * @returns The scheduled room
+   * @throws Error if the details or room settings are invalid
+   */
+  public scheduleRoom(hostFid: string, details: ScheduleDetails): ScheduledRoom {
+    const problem = this.roomManager.checkRoomOptions(details);
+    if (problem) throw new Error(problem);
+
+    const scheduled = this.scheduleManager.schedule(hostFid, details);
+    this.io.to(lobbyChannels(scheduled.tags)).emit('room-scheduled', scheduled);
+    return scheduled;
+  }
+
+  /**
+   * Lists the rooms that have not gone live yet, soonest first
+   * @returns The scheduled rooms
+   */
+  public listUpcomingRooms(): ScheduledRoom[] {
+    return this.scheduleManager.listUpcoming();
+  }
+
+  /**
+   * Lists the active rooms of every cluster node a user may see, in serialized format
+   * @param viewerFid - The FID of the user asking; anonymous users only see public rooms
+   * @returns Array of serialized room data
+   */
+  public async listRooms(viewerFid?: string): Promise<SerializedRoom[]> {
+    const rooms = await this.roomManager.listAllRooms();
+    return rooms
+      .filter(room => this.roomManager.canView(room, viewerFid))
+      .map(room => this.serializeRoom(room));
+  }
+
+  /**
+   * Lists one page of the active rooms of every cluster node that a user may
+   * see and that match a query
+   * @param query - Filters, order, page and shape of the listing
+   * @param viewerFid - The FID of the user asking; anonymous users only see public rooms
+   * @returns The page of full or summarized rooms
+   * @throws Error if the query is invalid
+   */
+  public async discoverRooms(query: RoomQuery, viewerFid?: string): Promise<RoomPage<SerializedRoom | RoomSummary>> {
+    const rooms = (await this.roomManager.listAllRooms()).filter(room => this.roomManager.canView(room, viewerFid));
+    const page = queryRooms(rooms, query);
+    return {
+      rooms: page.rooms.map(room => (query.view === 'summary' ? summarizeRoom(room) : this.serializeRoom(room))),
+      nextCursor: page.nextCursor
+    };
+  }
+
+  /**
+   * Looks up an active room of any cluster node that a user may see
+   * @param roomId - The ID of the room
+   * @param viewerFid - The FID of the user asking; anonymous users only see public rooms
+   * @returns The serialized room, or undefined if there is none the user may see
+   */
+  public async getRoom(roomId: string, viewerFid?: string): Promise<SerializedRoom | undefined> {
+    const room = await this.findVisibleRoom(roomId, viewerFid);
+    return room ? this.serializeRoom(room) : undefined;
+  }
+
+  /**
+   * Lists the users in an active room with their roles and mute state
+   * @param roomId - The ID of the room
+   * @param viewerFid - The FID of the user asking; anonymous users only see public rooms
+   * @returns The participants, or undefined if there is no room the user may see
+   */
+  public async getParticipants(roomId: string, viewerFid?: string): Promise<Participant[] | undefined> {
+    const room = await this.findVisibleRoom(roomId, viewerFid);
+    return room ? this.roomManager.listParticipants(room) : undefined;
+  }
+
+  /**
+   * Lists the active rooms of every cluster node a user hosts or is in
+   * @param fid - The FID of the user
+   * @param viewerFid - The FID of the user asking; anonymous users only see public rooms
    * @returns Array of serialized room data
    */
-  public listRooms(): SerializedRoom[] {
-    return this.roomManager.listRooms().map(room => this.serializeRoom(room));
+  public async listUserRooms(fid: string, viewerFid?: string): Promise<SerializedRoom[]> {
+    const rooms = await this.roomManager.listAllRooms();
+    return rooms
+      .filter(room => room.hostFid === fid || room.speakers.has(fid) || room.listeners.has(fid))
+      .filter(room => this.roomManager.canView(room, viewerFid))
+      .map(room => this.serializeRoom(room));
+  }
+
+  /**
+   * Opens a room for a host who is not connected, e.g. a bot. The host's
+   * sockets receive `room-created`; the host joins the room like any other.
+   * @param hostFid - The FID of the host
+   * @param name - The name of the room
+   * @param tags - Tags for the room
+   * @param options - Per-room settings
+   * @returns The serialized room
+   * @throws Error if the room is invalid, the host hosts too many rooms or its media could not be set up
+   */
+  public async createRoom(
+    hostFid: string,
+    name: string,
+    tags: string[] = [],
+    options: CreateRoomOptions = {}
+  ): Promise<SerializedRoom> {
+    if (!name || typeof name !== 'string') throw new Error('Room name is required');
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+      throw new Error('Tags must be a list of strings');
+    }
+
+    const problem = this.roomManager.checkRoomOptions(options);
+    if (problem) throw new Error(problem);
+    if (!this.roomManager.canHost(hostFid)) throw new Error('You are hosting too many rooms');
+
+    const room = this.serializeRoom(await this.openRoom({ fid: hostFid }, name, tags, options));
+    await this.emitToConnectedUsers([hostFid], 'room-created', room);
+    return room;
+  }
+
+  /**
+   * Closes a room of this node on request of its host. The room's sockets
+   * receive `room-closed`.
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user closing the room
+   * @returns True if the room was open on this node and the user is its host
+   */
+  public async closeRoom(roomId: string, fid: string): Promise<boolean> {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room?.active || room.hostFid !== fid) return false;
+
+    this.cancelHostHandoff(roomId);
+    await this.shutDownRoom(roomId, fid);
+    return true;
+  }
+
+  /**
+   * Looks up an active room of any cluster node if a user may see it
+   * @private
+   * @param roomId - The ID of the room
+   * @param viewerFid - The FID of the user asking
+   * @returns The room, or undefined if there is none the user may see
+   */
+  private async findVisibleRoom(roomId: string, viewerFid?: string): Promise<Room | undefined> {
+    const room = await this.roomManager.findRoom(roomId);
+    return room?.active && this.roomManager.canView(room, viewerFid) ? room : undefined;
+  }
+
+  /**
+   * Lists archived rooms, most recently closed first
+   * @param viewerFid - The FID of the user asking; anonymous users only see public rooms
+   * @returns Array of archive entries without their timelines
+   */
+  public async listArchive(viewerFid?: string) {
+    const entries = await this.archive.list();
+    return entries
+      .filter(entry => this.archive.canView(entry, viewerFid))
+      .map(({ timeline, chapters, media, allowedFids, ...summary }) => ({
+        ...summary,
+        chapters: chapters.length,
+        media: media.length
+      }));
+  }
+
+  /**
+   * Looks up an archived room with its timeline, chapters and attached media.
+   * Server paths of the media files are left out.
+   * @param roomId - The ID of the room
+   * @param viewerFid - The FID of the user asking; anonymous users only see public rooms
+   * @returns The archive entry, or undefined if there is none the user may see
+   */
+  public async getArchiveEntry(roomId: string, viewerFid?: string) {
+    const entry = await this.archive.get(roomId);
+    if (!entry || !this.archive.canView(entry, viewerFid)) return undefined;
+
+    const { allowedFids, ...visible } = entry;
+    return { ...visible, media: entry.media.map(({ file, ...media }) => media) };
+  }
+
+  /**
+   * Looks up a file attached to an archived room
+   * @param roomId - The ID of the room
+   * @param mediaId - The ID of the media
+   * @param viewerFid - The FID of the user asking; anonymous users only see public rooms
+   * @returns The media including its server path, or undefined if not found or not visible
+   */
+  public async getArchiveMedia(roomId: string, mediaId: string, viewerFid?: string): Promise<ArchiveMedia | undefined> {
+    const entry = await this.archive.get(roomId);
+    if (!entry || !this.archive.canView(entry, viewerFid)) return undefined;
+    return entry.media.find(media => media.id === mediaId);
+  }
+
+  /**
+   * Attaches an audio file to a live or archived room
+   * @param roomId - The ID of the room
+   * @param media - The file to attach
+   * @returns The attached media
+   * @throws Error if the room has no archive entry
+   */
+  public attachArchiveMedia(roomId: string, media: Omit<ArchiveMedia, 'id'>): Promise<ArchiveMedia> {
+    return this.archive.attachMedia(roomId, media);
+  }
+
+  /**
+   * Verifies credentials presented outside of a socket, e.g. on a REST request
+   * @param credentials - The user's FID and a signed message or token proving ownership
+   * @returns The authenticated user, or the reason the credentials were rejected
+   */
+  public authenticate(credentials: AuthCredentials) {
+    return this.authenticator.authenticate(credentials);
+  }
+
+  /**
+   * Returns the role of a user in a room, including rooms that have closed
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the user
+   * @returns The user's role, or undefined if the room is unknown
+   */
+  public async getRole(roomId: string, fid: string): Promise<RoomRole | undefined> {
+    const role = await this.roomManager.findRole(roomId, fid);
+    if (role) return role;
+
+    // Closed rooms are only kept in the archive
+    const entry = await this.archive.get(roomId);
+    return entry ? this.archive.roleOf(entry, fid) : undefined;
+  }
+
+  /**
+   * Reads the audit log of a room
+   * @param roomId - The ID of the room
+   * @param query - Optional filters
+   * @returns The matching entries, oldest first
+   */
+  public getAuditLog(roomId: string, query?: AuditQuery): Promise<AuditEntry[]> {
+    return this.auditSink.query(roomId, query);
+  }
+
+  /**
+   * Describes which media routers serve a room and which listeners they carry
+   * @param roomId - The ID of the room
+   * @param viewerFid - The FID of the user asking; anonymous users only see public rooms
+   * @returns The room's media state, or undefined if the room has no media the user may see
+   */
+  public getRoomMediaState(roomId: string, viewerFid?: string): RoomMediaState | undefined {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room?.active || !this.roomManager.canView(room, viewerFid)) return undefined;
+    return this.broadcaster.getRoomMediaState(roomId);
   }
 }
\ No newline at end of file
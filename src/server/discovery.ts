@@ -0,0 +1,154 @@
+import { Room } from '../types/Room';
+import { RoomPage, RoomQuery, RoomSort, RoomSummary } from '../types/Discovery';
+
+/** How far back reactions count towards a room's activity */
+const REACTION_ACTIVITY_WINDOW_MS = 5 * 60 * 1000;
+
+/** Rooms per page when the query does not say */
+const DEFAULT_PAGE_SIZE = 20;
+
+/** Most rooms a single page may hold */
+const MAX_PAGE_SIZE = 100;
+
+/** Number of speakers listed in a room summary's `topSpeakers` */
+const TOP_SPEAKERS = 3;
+
+/** Orders rooms can be listed in */
+const ROOM_SORTS: RoomSort[] = ['listeners', 'recent', 'reactions'];
+
+/**
+ * Position of a room in a sorted listing: its sort value, then its ID to break ties
+ */
+type Position = [number, string];
+
+/**
+ * Counts the reactions a room received lately
+ * @param room - The room
+ * @param now - The current time (ms)
+ * @returns Reactions sent within the activity window
+ */
+function countRecentReactions(room: Room, now: number): number {
+  return room.reactions.filter(reaction => reaction.timestamp >= now - REACTION_ACTIVITY_WINDOW_MS).length;
+}
+
+/**
+ * Works out where a room goes in a listing
+ * @param room - The room
+ * @param sort - The order of the listing
+ * @param now - The current time (ms)
+ * @returns The room's position; higher sort values come first
+ */
+function positionOf(room: Room, sort: RoomSort, now: number): Position {
+  switch (sort) {
+    case 'recent':
+      return [room.createdAt, room.id];
+    case 'reactions':
+      return [countRecentReactions(room, now), room.id];
+    default:
+      return [room.listeners.size, room.id];
+  }
+}
+
+/**
+ * Compares two positions in listing order
+ * @param a - The first position
+ * @param b - The second position
+ * @returns A negative number if `a` comes first, a positive one if `b` does
+ */
+function comparePositions([aValue, aId]: Position, [bValue, bId]: Position): number {
+  if (aValue !== bValue) return bValue - aValue;
+  return aId < bId ? -1 : aId > bId ? 1 : 0;
+}
+
+/**
+ * Reads the position a page cursor points after
+ * @param cursor - The cursor returned with the previous page
+ * @returns The position of the last room of the previous page
+ * @throws Error if the cursor is malformed
+ */
+function decodeCursor(cursor: string): Position {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(position) && typeof position[0] === 'number' && typeof position[1] === 'string') {
+      return [position[0], position[1]];
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Invalid cursor');
+}
+
+/**
+ * Describes a room with counts instead of participant lists
+ * @param room - The room to describe
+ * @param now - The current time (ms)
+ * @returns The room summary
+ */
+export function summarizeRoom(room: Room, now: number = Date.now()): RoomSummary {
+  return {
+    id: room.id,
+    name: room.name,
+    description: room.description,
+    tags: room.tags,
+    hostFid: room.hostFid,
+    visibility: room.visibility,
+    speakerCount: room.speakers.size,
+    listenerCount: room.listeners.size,
+    topSpeakers: Array.from(room.speakers).slice(0, TOP_SPEAKERS),
+    recentReactionCount: countRecentReactions(room, now),
+    createdAt: room.createdAt,
+    recovering: room.recoveringUntil !== undefined
+  };
+}
+
+/**
+ * Checks whether a room matches the tag and text filters of a query
+ * @param room - The room
+ * @param query - The filters to apply
+ * @returns True if the room matches every filter given
+ */
+export function matchesRoomQuery(room: Room, query: Pick<RoomQuery, 'tags' | 'search'>): boolean {
+  if (query.tags?.length) {
+    const wanted = query.tags.map(tag => tag.toLowerCase());
+    if (!room.tags.some(tag => wanted.includes(tag.toLowerCase()))) return false;
+  }
+  if (query.search) {
+    const search = query.search.toLowerCase();
+    const text = `${room.name} ${room.description ?? ''}`.toLowerCase();
+    if (!text.includes(search)) return false;
+  }
+  return true;
+}
+
+/**
+ * Picks one page of the rooms that match a query
+ * @param rooms - The rooms to choose from
+ * @param query - The filters, order and page to return
+ * @returns The matching rooms of the page and the cursor of the next one
+ * @throws Error if the sort, cursor or limit is invalid
+ */
+export function queryRooms(rooms: Room[], query: RoomQuery = {}): RoomPage<Room> {
+  const sort = query.sort ?? 'listeners';
+  if (!ROOM_SORTS.includes(sort)) throw new Error(`Sort must be one of: ${ROOM_SORTS.join(', ')}`);
+
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1) throw new Error('Limit must be a positive integer');
+
+  const after = query.cursor ? decodeCursor(query.cursor) : undefined;
+  const now = Date.now();
+  const listed = rooms
+    .filter(room => matchesRoomQuery(room, query))
+    .map(room => ({ room, position: positionOf(room, sort, now) }))
+    .filter(({ position }) => !after || comparePositions(after, position) < 0)
+    .sort((a, b) => comparePositions(a.position, b.position));
+  if (query.paginate === false) return { rooms: listed.map(({ room }) => room) };
+
+  const page = listed.slice(0, Math.min(limit, MAX_PAGE_SIZE));
+  const last = page[page.length - 1];
+  return {
+    rooms: page.map(({ room }) => room),
+    nextCursor: listed.length > page.length && last
+      ? Buffer.from(JSON.stringify(last.position)).toString('base64url')
+      : undefined
+  };
+}
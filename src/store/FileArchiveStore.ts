@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ArchiveStore, ArchiveEntry } from '../types/Archive';
+
+/**
+ * FileArchiveStore keeps one JSON file per archived room in a directory.
+ * Each write replaces its file atomically.
+ */
+export class FileArchiveStore implements ArchiveStore {
+  /**
+   * Creates a new instance of FileArchiveStore
+   * @param directory - Directory holding the archive entries
+   */
+  constructor(private directory: string) {}
+
+  /**
+   * Loads every archived room from disk
+   * @returns The archive entries
+   */
+  async list(): Promise<ArchiveEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: ArchiveEntry[] = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      entries.push(JSON.parse(await fs.readFile(join(this.directory, file), 'utf8')));
+    }
+    return entries;
+  }
+
+  /**
+   * Loads a single archived room
+   * @param roomId - The ID of the room
+   * @returns The archive entry, or undefined if the room was not archived
+   */
+  async get(roomId: string): Promise<ArchiveEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.entryPath(roomId), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Writes an archive entry to a temporary file and moves it into place
+   * @param entry - The entry to store
+   */
+  async save(entry: ArchiveEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filePath = this.entryPath(entry.roomId);
+    await fs.writeFile(`${filePath}.tmp`, JSON.stringify(entry));
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+
+  /**
+   * Returns the file an entry is stored in
+   * @private
+   * @param roomId - The ID of the room
+   * @returns Path of the entry's JSON file
+   */
+  private entryPath(roomId: string): string {
+    return join(this.directory, `${encodeURIComponent(roomId)}.json`);
+  }
+}
@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import { RoomStore, StoredRoom } from '../types/Store';
+
+/**
+ * FileRoomStore persists rooms to a single JSON file. Writes are coalesced:
+ * changes made while a write is in flight are flushed together afterwards,
+ * and each write replaces the file atomically.
+ */
+export class FileRoomStore implements RoomStore {
+  private rooms: Map<string, StoredRoom> = new Map();
+  private loaded = false;
+  private lastWrite: Promise<void> = Promise.resolve();
+  private pendingWrite?: Promise<void>;
+
+  /**
+   * Creates a new instance of FileRoomStore
+   * @param filePath - Path of the JSON file holding the rooms
+   */
+  constructor(private filePath: string) {}
+
+  /**
+   * Loads every stored room from disk
+   * @returns The stored rooms
+   */
+  async load(): Promise<StoredRoom[]> {
+    if (!this.loaded) {
+      try {
+        const contents = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as StoredRoom[];
+        contents.forEach(room => this.rooms.set(room.id, room));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+      this.loaded = true;
+    }
+    return Array.from(this.rooms.values());
+  }
+
+  /**
+   * Loads a single room
+   * @param roomId - The ID of the room
+   * @returns The stored room, or undefined if it does not exist
+   */
+  async get(roomId: string): Promise<StoredRoom | undefined> {
+    await this.load();
+    return this.rooms.get(roomId);
+  }
+
+  /**
+   * Inserts or replaces a room
+   * @param room - The room to store
+   */
+  async save(room: StoredRoom): Promise<void> {
+    this.rooms.set(room.id, room);
+    await this.scheduleWrite();
+  }
+
+  /**
+   * Removes a room
+   * @param roomId - The ID of the room to remove
+   */
+  async delete(roomId: string): Promise<void> {
+    this.rooms.delete(roomId);
+    await this.scheduleWrite();
+  }
+
+  /**
+   * Queues a write of the current rooms behind any write in flight
+   * @private
+   */
+  private scheduleWrite(): Promise<void> {
+    if (!this.pendingWrite) {
+      this.pendingWrite = this.lastWrite.then(() => {
+        this.pendingWrite = undefined;
+        return this.writeFile();
+      });
+      this.lastWrite = this.pendingWrite.catch(error => {
+        console.error(`Failed to write room store ${this.filePath}`, error);
+      });
+    }
+    return this.pendingWrite;
+  }
+
+  /**
+   * Writes all rooms to a temporary file and moves it into place
+   * @private
+   */
+  private async writeFile() {
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(Array.from(this.rooms.values())));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import { ScheduleStore, ScheduledRoom } from '../types/Schedule';
+
+/**
+ * FileScheduleStore persists scheduled rooms to a single JSON file. Like
+ * FileRoomStore, it coalesces writes and replaces the file atomically.
+ */
+export class FileScheduleStore implements ScheduleStore {
+  private rooms: Map<string, ScheduledRoom> = new Map();
+  private loaded = false;
+  private lastWrite: Promise<void> = Promise.resolve();
+  private pendingWrite?: Promise<void>;
+
+  /**
+   * Creates a new instance of FileScheduleStore
+   * @param filePath - Path of the JSON file holding the scheduled rooms
+   */
+  constructor(private filePath: string) {}
+
+  /**
+   * Loads every scheduled room from disk
+   * @returns The scheduled rooms
+   */
+  async load(): Promise<ScheduledRoom[]> {
+    if (!this.loaded) {
+      try {
+        const contents = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as ScheduledRoom[];
+        contents.forEach(room => this.rooms.set(room.id, room));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+      this.loaded = true;
+    }
+    return Array.from(this.rooms.values());
+  }
+
+  /**
+   * Inserts or replaces a scheduled room
+   * @param room - The scheduled room to store
+   */
+  async save(room: ScheduledRoom): Promise<void> {
+    this.rooms.set(room.id, room);
+    await this.scheduleWrite();
+  }
+
+  /**
+   * Removes a scheduled room
+   * @param roomId - The ID of the scheduled room
+   */
+  async delete(roomId: string): Promise<void> {
+    this.rooms.delete(roomId);
+    await this.scheduleWrite();
+  }
+
+  /**
+   * Queues a write of the current scheduled rooms behind any write in flight
+   * @private
+   */
+  private scheduleWrite(): Promise<void> {
+    if (!this.pendingWrite) {
+      this.pendingWrite = this.lastWrite.then(() => {
+        this.pendingWrite = undefined;
+        return this.writeFile();
+      });
+      this.lastWrite = this.pendingWrite.catch(error => {
+        console.error(`Failed to write schedule store ${this.filePath}`, error);
+      });
+    }
+    return this.pendingWrite;
+  }
+
+  /**
+   * Writes all scheduled rooms to a temporary file and moves it into place
+   * @private
+   */
+  private async writeFile() {
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(Array.from(this.rooms.values())));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,34 @@
+import { ArchiveStore, ArchiveEntry } from '../types/Archive';
+
+/**
+ * MemoryArchiveStore keeps the archive in process memory. Nothing survives a
+ * restart; it is the default when no persistent store is configured.
+ */
+export class MemoryArchiveStore implements ArchiveStore {
+  private entries: Map<string, ArchiveEntry> = new Map();
+
+  /**
+   * Loads every archived room
+   * @returns The archive entries
+   */
+  async list(): Promise<ArchiveEntry[]> {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Loads a single archived room
+   * @param roomId - The ID of the room
+   * @returns The archive entry, or undefined if the room was not archived
+   */
+  async get(roomId: string): Promise<ArchiveEntry | undefined> {
+    return this.entries.get(roomId);
+  }
+
+  /**
+   * Inserts or replaces an archive entry
+   * @param entry - The entry to store
+   */
+  async save(entry: ArchiveEntry): Promise<void> {
+    this.entries.set(entry.roomId, entry);
+  }
+}
@@ -0,0 +1,42 @@
+import { RoomStore, StoredRoom } from '../types/Store';
+
+/**
+ * MemoryRoomStore keeps rooms in process memory. Nothing survives a restart;
+ * it is the default when no persistent store is configured.
+ */
+export class MemoryRoomStore implements RoomStore {
+  private rooms: Map<string, StoredRoom> = new Map();
+
+  /**
+   * Loads every stored room
+   * @returns The stored rooms
+   */
+  async load(): Promise<StoredRoom[]> {
+    return Array.from(this.rooms.values());
+  }
+
+  /**
+   * Loads a single room
+   * @param roomId - The ID of the room
+   * @returns The stored room, or undefined if it does not exist
+   */
+  async get(roomId: string): Promise<StoredRoom | undefined> {
+    return this.rooms.get(roomId);
+  }
+
+  /**
+   * Inserts or replaces a room
+   * @param room - The room to store
+   */
+  async save(room: StoredRoom): Promise<void> {
+    this.rooms.set(room.id, room);
+  }
+
+  /**
+   * Removes a room
+   * @param roomId - The ID of the room to remove
+   */
+  async delete(roomId: string): Promise<void> {
+    this.rooms.delete(roomId);
+  }
+}
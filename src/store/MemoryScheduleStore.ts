@@ -0,0 +1,33 @@
+import { ScheduleStore, ScheduledRoom } from '../types/Schedule';
+
+/**
+ * MemoryScheduleStore keeps scheduled rooms in process memory. Nothing
+ * survives a restart; it is the default when no persistent store is configured.
+ */
+export class MemoryScheduleStore implements ScheduleStore {
+  private rooms: Map<string, ScheduledRoom> = new Map();
+
+  /**
+   * Loads every scheduled room
+   * @returns The scheduled rooms
+   */
+  async load(): Promise<ScheduledRoom[]> {
+    return Array.from(this.rooms.values());
+  }
+
+  /**
+   * Inserts or replaces a scheduled room
+   * @param room - The scheduled room to store
+   */
+  async save(room: ScheduledRoom): Promise<void> {
+    this.rooms.set(room.id, room);
+  }
+
+  /**
+   * Removes a scheduled room
+   * @param roomId - The ID of the scheduled room
+   */
+  async delete(roomId: string): Promise<void> {
+    this.rooms.delete(roomId);
+  }
+}
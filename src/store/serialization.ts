@@ -0,0 +1,78 @@
+import { Room, ReactionType } from '../types/Room';
+import { StoredRoom } from '../types/Store';
+
+/** Stage size of rooms that were not given one, including rooms stored before the limit existed */
+export const DEFAULT_MAX_SPEAKERS = 20;
+
+/** Reactions of rooms that were not given a set, including rooms stored before sets existed */
+export const DEFAULT_REACTIONS: ReactionType[] = ['like', 'laugh', 'clap', 'fire', 'heart'];
+
+/**
+ * Converts a room into its stored representation
+ * @param room - The room to convert
+ * @returns The JSON-safe room
+ */
+export function toStoredRoom(room: Room): StoredRoom {
+  return {
+    id: room.id,
+    name: room.name,
+    description: room.description,
+    tags: [...room.tags],
+    hostFid: room.hostFid,
+    speakers: Array.from(room.speakers),
+    coHosts: Array.from(room.coHosts),
+    listeners: Array.from(room.listeners),
+    raisedHands: Array.from(room.raisedHands, ([fid, raisedAt]) => ({ fid, raisedAt })),
+    invitations: Array.from(room.invitations.values()),
+    maxSpeakers: room.maxSpeakers,
+    visibility: room.visibility,
+    allowedFids: Array.from(room.allowedFids),
+    inviteCodes: Array.from(room.inviteCodes),
+    passwordHash: room.passwordHash,
+    banned: Array.from(room.banned),
+    muted: Array.from(room.muted),
+    muteLocked: Array.from(room.muteLocked),
+    reactionSet: [...room.reactionSet],
+    reactions: [...room.reactions],
+    reactionStats: room.reactionStats,
+    messages: [...room.messages],
+    active: room.active,
+    createdAt: room.createdAt,
+    ownerNodeId: room.ownerNodeId
+  };
+}
+
+/**
+ * Rebuilds a room from its stored representation
+ * @param stored - The stored room
+ * @returns The room with its Set and Map fields restored
+ */
+export function fromStoredRoom(stored: StoredRoom): Room {
+  return {
+    id: stored.id,
+    name: stored.name,
+    description: stored.description,
+    tags: stored.tags ?? [],
+    hostFid: stored.hostFid,
+    speakers: new Set(stored.speakers),
+    coHosts: new Set(stored.coHosts ?? []),
+    listeners: new Set(stored.listeners),
+    raisedHands: new Map((stored.raisedHands ?? []).map(hand => [hand.fid, hand.raisedAt])),
+    invitations: new Map((stored.invitations ?? []).map(invitation => [invitation.fid, invitation])),
+    maxSpeakers: stored.maxSpeakers ?? DEFAULT_MAX_SPEAKERS,
+    visibility: stored.visibility ?? 'public',
+    allowedFids: new Set(stored.allowedFids ?? []),
+    inviteCodes: new Set(stored.inviteCodes ?? []),
+    passwordHash: stored.passwordHash,
+    banned: new Set(stored.banned ?? []),
+    muted: new Set(stored.muted ?? []),
+    muteLocked: new Set(stored.muteLocked ?? []),
+    reactionSet: stored.reactionSet ?? DEFAULT_REACTIONS,
+    reactions: stored.reactions ?? [],
+    reactionStats: stored.reactionStats ?? { totals: {}, byReactor: {}, bySpeaker: {} },
+    messages: stored.messages ?? [],
+    active: stored.active,
+    createdAt: stored.createdAt ?? 0,
+    ownerNodeId: stored.ownerNodeId
+  };
+}
@@ -0,0 +1,108 @@
+import { RoomActivityType, RoomVisibility } from './Room';
+
+/** Kinds of moments kept in a room's archived timeline */
+export type ArchiveEventType = RoomActivityType | 'reaction-spike';
+
+/**
+ * A moment in an archived room's timeline
+ */
+export interface ArchiveEvent {
+  /** What happened */
+  type: ArchiveEventType;
+  /** FID of the user concerned; unset for reaction spikes */
+  fid?: string;
+  /** Timestamp when it happened */
+  timestamp: number;
+  /** Number of reactions sent during a reaction spike */
+  reactions?: number;
+}
+
+/**
+ * A section of an archived room during which the stage did not change
+ */
+export interface ArchiveChapter {
+  /** Generated title describing how the chapter started */
+  title: string;
+  /** Offset (ms) from the start of the room */
+  start: number;
+  /** Offset (ms) from the start of the room */
+  end: number;
+  /** FIDs of the users on stage */
+  speakers: string[];
+  /** Number of reaction spikes during the chapter */
+  highlights: number;
+}
+
+/**
+ * An audio file attached to an archived room
+ */
+export interface ArchiveMedia {
+  /** Unique identifier for the media */
+  id: string;
+  /** Path of the file on the server */
+  file: string;
+  /** MIME type the file is served with */
+  mimeType: string;
+  /** Human readable description, e.g. the speaker of a track */
+  label?: string;
+  /** Timestamp the audio starts at */
+  startedAt?: number;
+}
+
+/**
+ * Everything kept about a room after it closed
+ */
+export interface ArchiveEntry {
+  /** ID of the room */
+  roomId: string;
+  /** Name of the room */
+  name: string;
+  /** Tags of the room */
+  tags: string[];
+  /** FID of the host when the room opened */
+  hostFid: string;
+  /** Who could find the room; the archive of a non-public room is only shown to its members */
+  visibility: RoomVisibility;
+  /** FIDs let into the room without a code or password */
+  allowedFids: string[];
+  /** FID of the host when the room closed; unset while the room is live */
+  closingHostFid?: string;
+  /** FIDs of the co-hosts when the room closed */
+  coHosts: string[];
+  /** Timestamp when the room opened */
+  startedAt: number;
+  /** Timestamp when the room closed; unset while the room is live */
+  closedAt?: number;
+  /** FIDs of everyone who took part */
+  participants: string[];
+  /** Presence, stage, mute and reaction events in order */
+  timeline: ArchiveEvent[];
+  /** Chapter index generated when the room closed */
+  chapters: ArchiveChapter[];
+  /** Attached audio files */
+  media: ArchiveMedia[];
+}
+
+/**
+ * Persists the archive of closed rooms
+ */
+export interface ArchiveStore {
+  /**
+   * Loads every archived room
+   * @returns The archive entries
+   */
+  list(): Promise<ArchiveEntry[]>;
+
+  /**
+   * Loads a single archived room
+   * @param roomId - The ID of the room
+   * @returns The archive entry, or undefined if the room was not archived
+   */
+  get(roomId: string): Promise<ArchiveEntry | undefined>;
+
+  /**
+   * Inserts or replaces an archive entry
+   * @param entry - The entry to store
+   */
+  save(entry: ArchiveEntry): Promise<void>;
+}
@@ -0,0 +1,69 @@
+/** Privileged actions recorded in the audit log */
+export type AuditAction =
+  | 'promote'
+  | 'invite-to-speak'
+  | 'invite-to-room'
+  | 'demote'
+  | 'add-co-host'
+  | 'remove-co-host'
+  | 'transfer-host'
+  | 'kick'
+  | 'ban'
+  | 'mute'
+  | 'allow-unmute'
+  | 'mute-all'
+  | 'delete-message'
+  | 'start-recording'
+  | 'stop-recording'
+  | 'close-room';
+
+/**
+ * A single privileged action taken in a room
+ */
+export interface AuditEntry {
+  /** ID of the room */
+  roomId: string;
+  /** FID of the user who took the action */
+  actorFid: string;
+  /** FID of the user the action was taken on, if any */
+  targetFid?: string;
+  /** What was done */
+  action: AuditAction;
+  /** Timestamp when it was done */
+  timestamp: number;
+}
+
+/**
+ * Narrows down the audit entries of a room
+ */
+export interface AuditQuery {
+  /** Only entries at or after this timestamp */
+  since?: number;
+  /** Only entries before this timestamp */
+  until?: number;
+  /** Only entries of this action */
+  action?: AuditAction;
+  /** Only entries taken by or on this user */
+  fid?: string;
+  /** Return at most this many entries, the most recent ones */
+  limit?: number;
+}
+
+/**
+ * Append-only storage for audit entries
+ */
+export interface AuditSink {
+  /**
+   * Appends an entry to the log
+   * @param entry - The entry to append
+   */
+  append(entry: AuditEntry): Promise<void>;
+
+  /**
+   * Reads the entries of a room, oldest first
+   * @param roomId - The ID of the room
+   * @param query - Optional filters
+   * @returns The matching entries
+   */
+  query(roomId: string, query?: AuditQuery): Promise<AuditEntry[]>;
+}
@@ -0,0 +1,34 @@
+import { User } from './Room';
+
+/**
+ * Credentials presented by a client when authenticating
+ */
+export interface AuthCredentials {
+  /** FID the client claims to own */
+  fid: string;
+  /** Sign-In-With-Farcaster style message that was signed by the client */
+  message?: string;
+  /** Base64 encoded signature over the message */
+  signature?: string;
+  /** Signed bearer token (HS256 JWT) */
+  token?: string;
+}
+
+/**
+ * Outcome of an authentication attempt
+ */
+export type AuthResult =
+  | { success: true; user: User }
+  | { success: false; reason: string };
+
+/**
+ * Verifies client credentials before a socket is allowed to act as a user
+ */
+export interface Authenticator {
+  /**
+   * Verifies the given credentials
+   * @param credentials - The credentials presented by the client
+   * @returns The authenticated user, or the reason the credentials were rejected
+   */
+  authenticate(credentials: AuthCredentials): Promise<AuthResult>;
+}
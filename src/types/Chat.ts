@@ -0,0 +1,37 @@
+/**
+ * A text message sent in a room's chat
+ */
+export interface ChatMessage {
+  /** Unique identifier for the message */
+  id: string;
+  /** FID of the user who sent the message */
+  fid: string;
+  /** Text of the message, as let through by the content filter */
+  text: string;
+  /** ID of the message this one replies to */
+  replyTo?: string;
+  /** Timestamp when the message was sent */
+  timestamp: number;
+}
+
+/**
+ * Outcome of checking a chat message
+ */
+export type MessageFilterResult =
+  | { allowed: true; text: string }
+  | { allowed: false; reason: string };
+
+/**
+ * Checks chat messages before they are broadcast, e.g. to reject or mask
+ * abusive content
+ */
+export interface MessageFilter {
+  /**
+   * Checks a message a user wants to send
+   * @param roomId - The ID of the room
+   * @param fid - The FID of the sender
+   * @param text - The text of the message
+   * @returns The text to broadcast, or the reason the message was rejected
+   */
+  check(roomId: string, fid: string, text: string): Promise<MessageFilterResult>;
+}
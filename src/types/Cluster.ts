@@ -0,0 +1,78 @@
+/**
+ * Key/value state shared by every node of the cluster (e.g. Redis)
+ */
+export interface SharedStateStore {
+  /**
+   * Reads a value
+   * @param key - The key to read
+   * @returns The stored value, or undefined if the key is not set
+   */
+  get(key: string): Promise<string | undefined>;
+
+  /**
+   * Writes a value
+   * @param key - The key to write
+   * @param value - The value to store
+   */
+  set(key: string, value: string): Promise<void>;
+
+  /**
+   * Removes a value
+   * @param key - The key to remove
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Reads every value whose key starts with a prefix
+   * @param prefix - The key prefix
+   * @returns The matching values
+   */
+  list(prefix: string): Promise<string[]>;
+}
+
+/**
+ * Publish/subscribe channel connecting the nodes of the cluster
+ */
+export interface PubSub {
+  /**
+   * Publishes a message to every subscriber of a channel, on every node
+   * @param channel - The channel name
+   * @param message - The message to publish
+   */
+  publish(channel: string, message: string): Promise<void>;
+
+  /**
+   * Subscribes to a channel
+   * @param channel - The channel name
+   * @param handler - Called with every message published on the channel
+   */
+  subscribe(channel: string, handler: (message: string) => void): Promise<void>;
+
+  /**
+   * Removes every subscription to a channel made on this node
+   * @param channel - The channel name
+   */
+  unsubscribe(channel: string): Promise<void>;
+}
+
+/**
+ * A server instance taking part in the cluster
+ */
+export interface ClusterNode {
+  /** Unique ID of the node */
+  id: string;
+  /** Public URL clients use to reach this node directly */
+  url?: string;
+}
+
+/**
+ * Configuration for running a SocketServer as part of a cluster
+ */
+export interface ClusterOptions {
+  /** This node */
+  node: ClusterNode;
+  /** State shared by all nodes: rooms and node addresses */
+  state: SharedStateStore;
+  /** Channel carrying Socket.IO broadcasts between nodes */
+  pubsub: PubSub;
+}
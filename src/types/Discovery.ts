@@ -0,0 +1,81 @@
+import { RoomVisibility } from './Room';
+
+/**
+ * Orders rooms can be listed in: most listeners first, newest first, or
+ * most reactions in the last few minutes first
+ */
+export type RoomSort = 'listeners' | 'recent' | 'reactions';
+
+/**
+ * Narrows down and pages through the active rooms
+ */
+export interface RoomQuery {
+  /** Only rooms tagged with at least one of these tags */
+  tags?: string[];
+  /** Only rooms whose name or description contains this text */
+  search?: string;
+  /** Order of the rooms, `listeners` by default */
+  sort?: RoomSort;
+  /** Where to continue from, as returned in `nextCursor` of the previous page */
+  cursor?: string;
+  /** Return at most this many rooms */
+  limit?: number;
+  /** Whether to split the listing into pages, `true` by default; when `false` every matching room is returned */
+  paginate?: boolean;
+  /** Whether to return full rooms or summaries with counts only, `full` by default */
+  view?: 'full' | 'summary';
+}
+
+/**
+ * Lightweight description of a room for lobby listings
+ */
+export interface RoomSummary {
+  id: string;
+  name: string;
+  description?: string;
+  tags: string[];
+  hostFid: string;
+  visibility: RoomVisibility;
+  /** Number of users on stage, the host included */
+  speakerCount: number;
+  /** Number of users listening */
+  listenerCount: number;
+  /** FIDs of the first users on stage, in the order they joined it */
+  topSpeakers: string[];
+  /** Reactions sent in the last few minutes */
+  recentReactionCount: number;
+  /** Timestamp when the room was created */
+  createdAt: number;
+  recovering: boolean;
+}
+
+/**
+ * One page of listed rooms
+ */
+export interface RoomPage<T> {
+  rooms: T[];
+  /** Cursor of the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/**
+ * New participant counts or top speakers of a room listed in the lobby
+ */
+export interface LobbyRoomUpdate {
+  id: string;
+  speakerCount: number;
+  listenerCount: number;
+  topSpeakers: string[];
+}
+
+/**
+ * Changes to the lobby since the previous update
+ */
+export interface LobbyChanges {
+  /** Rooms that opened or became listed */
+  added: RoomSummary[];
+  /** IDs of rooms that closed */
+  removed: string[];
+  /** Rooms whose participant counts or top speakers changed */
+  updated: LobbyRoomUpdate[];
+}
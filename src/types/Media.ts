@@ -0,0 +1,60 @@
+/** Direction of a WebRTC transport from the client's point of view */
+export type TransportDirection = 'send' | 'recv';
+
+/**
+ * Transports held by a single user
+ */
+export interface UserTransports {
+  /** ID of the room whose router the transports live on */
+  roomId: string;
+  /** ID of the transport used to publish audio */
+  send?: string;
+  /** ID of the transport all consumers are attached to */
+  recv?: string;
+  /** ID of the router the receive transport lives on */
+  recvRouterId?: string;
+}
+
+/**
+ * Load and listener placement of a single router
+ */
+export interface RouterState {
+  /** ID of the router */
+  routerId: string;
+  /** Whether speakers produce on this router or it receives piped producers */
+  role: 'origin' | 'listener';
+  /** Number of consumers attached to receive transports on this router */
+  consumers: number;
+  /** FIDs of users whose receive transport lives on this router */
+  listeners: string[];
+}
+
+/**
+ * Routers serving a room and the listeners placed on each of them
+ */
+export interface RoomMediaState {
+  /** ID of the room */
+  roomId: string;
+  /** The origin router followed by any listener routers */
+  routers: RouterState[];
+}
+
+/**
+ * Local address a recording consumer sends its RTP to
+ */
+export interface RecordingDestination {
+  /** IP address of the recorder */
+  ip: string;
+  /** UDP port of the recorder */
+  port: number;
+}
+
+/**
+ * Loudness of a single speaker over the last observer interval
+ */
+export interface AudioLevel {
+  /** FID of the speaker */
+  fid: string;
+  /** Average volume in dBvo, from -127 (silent) to 0 */
+  volume: number;
+}
@@ -0,0 +1,61 @@
+import { RoomActivity } from './Room';
+
+/**
+ * Audio file holding a single speaker's track
+ */
+export interface RecordingTrack {
+  /** FID of the speaker */
+  fid: string;
+  /** Ogg/Opus file name, relative to the recording's directory */
+  file: string;
+  /** Timestamp when the track started */
+  startedAt: number;
+}
+
+/**
+ * Period during which a user was on stage
+ */
+export interface SpeakerInterval {
+  /** FID of the speaker */
+  fid: string;
+  /** Timestamp when the user was on stage, or the recording started */
+  from: number;
+  /** Timestamp when the user left the stage, unset if they stayed until the end */
+  until?: number;
+}
+
+/**
+ * Sidecar describing a recording, stored next to its audio files
+ */
+export interface RecordingMetadata {
+  /** Unique identifier for the recording */
+  id: string;
+  /** ID of the recorded room */
+  roomId: string;
+  /** Timestamp when recording started */
+  startedAt: number;
+  /** Timestamp when recording stopped */
+  stoppedAt?: number;
+  /** One audio track per produced speaker stream */
+  tracks: RecordingTrack[];
+  /** Who was on stage, and when */
+  speakers: SpeakerInterval[];
+  /** Promote, demote, mute and leave events that happened while recording */
+  events: RoomActivity[];
+}
+
+/**
+ * Recording status announced to a room's participants
+ */
+export interface RecordingState {
+  /** ID of the room */
+  roomId: string;
+  /** Whether the room is being recorded */
+  recording: boolean;
+  /** ID of the current or last recording */
+  recordingId?: string;
+  /** Timestamp when the current recording started */
+  startedAt?: number;
+  /** Why the recording stopped, if it was not stopped by the host */
+  error?: string;
+}
@@ -1,3 +1,5 @@
+import { ChatMessage } from './Chat';
+
 /**
  * Represents a user in the system
  */
@@ -9,10 +11,27 @@ export interface User {
 }
 
 /** Role of a user in a room */
-export type RoomRole = 'host' | 'speaker' | 'listener';
+export type RoomRole = 'host' | 'co-host' | 'speaker' | 'listener';
 
-/** Types of reactions that can be sent in a room */
-export type ReactionType = 'like' | 'laugh' | 'clap' | 'fire' | 'heart';
+/** Code of a reaction that can be sent in a room: a built-in type such as `like`, or a custom emoji code */
+export type ReactionType = string;
+
+/**
+ * Who may find and join a room: anyone (`public`), anyone with its ID but
+ * not listed (`unlisted`), allowed users and holders of an invite code
+ * (`invite-only`), or anyone who knows its password (`password`)
+ */
+export type RoomVisibility = 'public' | 'unlisted' | 'invite-only' | 'password';
+
+/**
+ * What a user presents to get into a room that is not open to everyone
+ */
+export interface RoomAccess {
+  /** Single-use invite code of an invite-only room */
+  inviteCode?: string;
+  /** Password of a password-protected room */
+  password?: string;
+}
 
 /**
  * Represents a reaction in a room
@@ -24,6 +43,59 @@ export interface Reaction {
   fid: string;
   /** Timestamp when the reaction was sent */
   timestamp: number;
+  /** FID of the active speaker the reaction is attributed to */
+  speakerFid?: string;
+}
+
+/**
+ * Running reaction counts of a room since it was created
+ */
+export interface ReactionStats {
+  /** Reactions sent per type */
+  totals: Partial<Record<ReactionType, number>>;
+  /** Reactions sent per FID of the sender */
+  byReactor: Record<string, number>;
+  /** Reactions per type received by each speaker, by the FID of the active speaker when they were sent */
+  bySpeaker: Record<string, Partial<Record<ReactionType, number>>>;
+}
+
+/**
+ * A listener waiting in a room's speaker queue
+ */
+export interface RaisedHand {
+  /** FID of the listener */
+  fid: string;
+  /** Timestamp when the hand was raised */
+  raisedAt: number;
+}
+
+/**
+ * A pending invitation for a listener to join the stage
+ */
+export interface SpeakerInvitation {
+  /** FID of the invited listener */
+  fid: string;
+  /** FID of the host or co-host who sent the invitation */
+  invitedBy: string;
+  /** Timestamp when the invitation was sent */
+  timestamp: number;
+}
+
+/** Presence and stage changes that are timestamped as they happen in a room */
+export type RoomActivityType = 'joined' | 'promoted' | 'demoted' | 'muted' | 'unmuted' | 'left';
+
+/**
+ * A presence or stage change of a single user in a room
+ */
+export interface RoomActivity {
+  /** ID of the room */
+  roomId: string;
+  /** What happened; `left` is recorded when a speaker leaves the room */
+  type: RoomActivityType;
+  /** FID of the user concerned */
+  fid: string;
+  /** Timestamp when it happened */
+  timestamp: number;
 }
 
 /**
@@ -34,20 +106,66 @@ export interface Room {
   id: string;
   /** Name of the room */
   name: string;
+  /** What the room is about */
+  description?: string;
   /** Tags for categorizing the room */
   tags: string[];
   /** FID of the room host */
   hostFid: string;
-  /** Set of FIDs of users who can speak */
+  /** Set of FIDs of users who can speak, in the order they joined the stage */
   speakers: Set<string>;
+  /** Set of FIDs of speakers who can moderate the room alongside the host */
+  coHosts: Set<string>;
   /** Set of FIDs of users who are listening */
   listeners: Set<string>;
-  /** Set of FIDs of users who have raised their hands */
-  raisedHands: Set<string>;
+  /** FIDs of users who have raised their hands, in queue order, mapped to when they raised them */
+  raisedHands: Map<string, number>;
+  /** Pending invitations to join the stage by the FID of the invited listener */
+  invitations: Map<string, SpeakerInvitation>;
+  /** Maximum number of users on stage, the host included */
+  maxSpeakers: number;
+  /** Who may find and join the room */
+  visibility: RoomVisibility;
+  /** Set of FIDs of users let into a non-public room, who may join and see it without a code or password */
+  allowedFids: Set<string>;
+  /** Unused single-use invite codes of an invite-only room */
+  inviteCodes: Set<string>;
+  /** Salted scrypt hash of the password of a password-protected room */
+  passwordHash?: string;
+  /** Set of FIDs of users who may not join the room */
+  banned: Set<string>;
+  /** Set of FIDs of speakers whose audio is muted */
+  muted: Set<string>;
+  /** Set of FIDs of users a moderator muted, who may not unmute until allowed */
+  muteLocked: Set<string>;
+  /** Reactions that may be sent in the room, in display order */
+  reactionSet: ReactionType[];
   /** Array of reactions in the room */
   reactions: Reaction[];
+  /** Running reaction counts */
+  reactionStats: ReactionStats;
+  /** Most recent chat messages in the room, oldest first */
+  messages: ChatMessage[];
   /** Whether the room is currently active */
   active: boolean;
+  /** Timestamp when the room was created */
+  createdAt: number;
+  /** Set after a restart: time (ms) until which the host may reclaim the room */
+  recoveringUntil?: number;
+  /** ID of the cluster node hosting the room's media */
+  ownerNodeId?: string;
+}
+
+/**
+ * A user in a room as listed to clients
+ */
+export interface Participant {
+  fid: string;
+  role: RoomRole;
+  /** Whether the user's audio is muted; listeners are always muted */
+  muted: boolean;
+  /** Whether a moderator muted the user, who may not unmute until allowed */
+  muteLocked: boolean;
 }
 
 /**
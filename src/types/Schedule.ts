@@ -0,0 +1,63 @@
+import { ReactionType } from './Room';
+
+/** How often a scheduled room comes back once it went live */
+export type Recurrence = 'weekly';
+
+/**
+ * What a host fills in when scheduling a room
+ */
+export interface ScheduleDetails {
+  /** Name of the room */
+  name: string;
+  /** What the room is about */
+  description?: string;
+  /** Tags for categorizing the room */
+  tags?: string[];
+  /** Timestamp the room is planned to start at */
+  startsAt: number;
+  /** Set for shows that come back, e.g. every week */
+  recurrence?: Recurrence;
+  /** Maximum number of users on stage once the room is live */
+  maxSpeakers?: number;
+  /** Reactions that may be sent once the room is live */
+  reactions?: ReactionType[];
+}
+
+/**
+ * A room planned for later; it becomes a live Room when its host goes live
+ */
+export interface ScheduledRoom extends ScheduleDetails {
+  /** Unique identifier, kept by the room once it is live */
+  id: string;
+  /** Tags for categorizing the room */
+  tags: string[];
+  /** FID of the host */
+  hostFid: string;
+  /** FIDs of users who plan to attend */
+  rsvps: string[];
+  /** Timestamp when the room was scheduled */
+  createdAt: number;
+}
+
+/**
+ * Persists scheduled rooms so they survive a server restart
+ */
+export interface ScheduleStore {
+  /**
+   * Loads every scheduled room
+   * @returns The scheduled rooms
+   */
+  load(): Promise<ScheduledRoom[]>;
+
+  /**
+   * Inserts or replaces a scheduled room
+   * @param room - The scheduled room to store
+   */
+  save(room: ScheduledRoom): Promise<void>;
+
+  /**
+   * Removes a scheduled room
+   * @param roomId - The ID of the scheduled room
+   */
+  delete(roomId: string): Promise<void>;
+}
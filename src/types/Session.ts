@@ -0,0 +1,13 @@
+/**
+ * A user's membership of a room that survives socket reconnects
+ */
+export interface Session {
+  /** Opaque token the client presents to resume the session */
+  token: string;
+  /** FID of the user */
+  fid: string;
+  /** ID of the room the user is in */
+  roomId: string;
+  /** Set while the user's socket is disconnected: time (ms) the session expires */
+  expiresAt?: number;
+}
@@ -0,0 +1,89 @@
+import { Reaction, ReactionType, ReactionStats, RaisedHand, SpeakerInvitation, RoomVisibility } from './Room';
+import { ChatMessage } from './Chat';
+
+/**
+ * Plain, JSON-safe representation of a room as kept in a RoomStore.
+ * Set and Map fields of Room are stored as arrays.
+ */
+export interface StoredRoom {
+  /** Unique identifier for the room */
+  id: string;
+  /** Name of the room */
+  name: string;
+  /** What the room is about */
+  description?: string;
+  /** Tags for categorizing the room */
+  tags: string[];
+  /** FID of the room host */
+  hostFid: string;
+  /** FIDs of users who can speak */
+  speakers: string[];
+  /** FIDs of co-hosts */
+  coHosts: string[];
+  /** FIDs of users who are listening */
+  listeners: string[];
+  /** Raised hands in queue order */
+  raisedHands: RaisedHand[];
+  /** Pending invitations to join the stage */
+  invitations: SpeakerInvitation[];
+  /** Maximum number of users on stage */
+  maxSpeakers?: number;
+  /** Who may find and join the room */
+  visibility?: RoomVisibility;
+  /** FIDs of users let into a non-public room */
+  allowedFids?: string[];
+  /** Unused invite codes of an invite-only room */
+  inviteCodes?: string[];
+  /** Salted hash of the room password */
+  passwordHash?: string;
+  /** FIDs of users who may not join the room */
+  banned: string[];
+  /** FIDs of speakers whose audio is muted */
+  muted?: string[];
+  /** FIDs of users who may not unmute until a moderator allows it */
+  muteLocked: string[];
+  /** Reactions that may be sent in the room */
+  reactionSet?: ReactionType[];
+  /** Most recent reactions in the room */
+  reactions: Reaction[];
+  /** Running reaction counts */
+  reactionStats: ReactionStats;
+  /** Most recent chat messages in the room */
+  messages: ChatMessage[];
+  /** Whether the room is currently active */
+  active: boolean;
+  /** Timestamp when the room was created */
+  createdAt?: number;
+  /** ID of the cluster node hosting the room's media */
+  ownerNodeId?: string;
+}
+
+/**
+ * Persists room state so it survives a server restart
+ */
+export interface RoomStore {
+  /**
+   * Loads every stored room
+   * @returns The stored rooms
+   */
+  load(): Promise<StoredRoom[]>;
+
+  /**
+   * Loads a single room
+   * @param roomId - The ID of the room
+   * @returns The stored room, or undefined if it does not exist
+   */
+  get(roomId: string): Promise<StoredRoom | undefined>;
+
+  /**
+   * Inserts or replaces a room
+   * @param room - The room to store
+   */
+  save(room: StoredRoom): Promise<void>;
+
+  /**
+   * Removes a room
+   * @param roomId - The ID of the room to remove
+   */
+  delete(roomId: string): Promise<void>;
+}
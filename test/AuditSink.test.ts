@@ -0,0 +1,63 @@
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryAuditSink } from '../src/audit/MemoryAuditSink';
+import { JsonlAuditSink } from '../src/audit/JsonlAuditSink';
+import { AuditEntry, AuditSink } from '../src/types/Audit';
+
+const entries: AuditEntry[] = [
+  { roomId: 'room-1', actorFid: 'host-fid', targetFid: 'fid-1', action: 'promote', timestamp: 1 },
+  { roomId: 'room-2', actorFid: 'host-fid', targetFid: 'fid-1', action: 'ban', timestamp: 2 },
+  { roomId: 'room-1', actorFid: 'co-host-fid', targetFid: 'fid-2', action: 'kick', timestamp: 3 },
+  { roomId: 'room-1', actorFid: 'host-fid', action: 'mute-all', timestamp: 4 }
+];
+
+/**
+ * Runs the behaviour every sink must share
+ */
+const describeSink = (name: string, createSink: () => AuditSink) => {
+  describe(name, () => {
+    let sink: AuditSink;
+
+    beforeEach(async () => {
+      sink = createSink();
+      for (const entry of entries) await sink.append(entry);
+    });
+
+    it('should return a room\'s entries in order', async () => {
+      expect(await sink.query('room-1')).toEqual([entries[0], entries[2], entries[3]]);
+      expect(await sink.query('room-3')).toEqual([]);
+    });
+
+    it('should filter entries', async () => {
+      expect(await sink.query('room-1', { action: 'kick' })).toEqual([entries[2]]);
+      expect(await sink.query('room-1', { fid: 'fid-1' })).toEqual([entries[0]]);
+      expect(await sink.query('room-1', { since: 3, until: 4 })).toEqual([entries[2]]);
+      expect(await sink.query('room-1', { limit: 1 })).toEqual([entries[3]]);
+    });
+  });
+};
+
+describeSink('MemoryAuditSink', () => new MemoryAuditSink());
+
+describe('JsonlAuditSink', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'audit-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describeSink('as an audit sink', () => new JsonlAuditSink(join(directory, 'audit.jsonl')));
+
+  it('should write one JSON entry per line', async () => {
+    const sink = new JsonlAuditSink(join(directory, 'audit.jsonl'));
+    await Promise.all(entries.map(entry => sink.append(entry)));
+
+    const lines = readFileSync(join(directory, 'audit.jsonl'), 'utf8').trim().split('\n');
+    expect(lines.map(line => JSON.parse(line))).toEqual(entries);
+  });
+});
@@ -0,0 +1,124 @@
+import { generateKeyPairSync, randomUUID, sign } from 'crypto';
+import { SignedMessageAuthenticator } from '../src/auth/SignedMessageAuthenticator';
+import { TokenAuthenticator } from '../src/auth/TokenAuthenticator';
+import { CompositeAuthenticator } from '../src/auth/CompositeAuthenticator';
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+
+const signMessage = (fid: string, issuedAt: Date = new Date()) => {
+  const message = [
+    'farclub.test wants you to sign in with your Ethereum account:',
+    `Resources:\n- farcaster://fid/${fid}`,
+    `Nonce: ${randomUUID()}`,
+    `Issued At: ${issuedAt.toISOString()}`
+  ].join('\n');
+  return { fid, message, signature: sign(null, Buffer.from(message), privateKey).toString('base64') };
+};
+
+describe('SignedMessageAuthenticator', () => {
+  let authenticator: SignedMessageAuthenticator;
+
+  beforeEach(() => {
+    const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    authenticator = new SignedMessageAuthenticator(new Map([['123', pem]]), 60 * 1000, 'farclub.test');
+  });
+
+  it('should accept a message signed with the custody key', async () => {
+    const result = await authenticator.authenticate(signMessage('123'));
+    expect(result).toEqual({ success: true, user: { fid: '123' } });
+  });
+
+  it('should reject a tampered message', async () => {
+    const credentials = signMessage('123');
+    const result = await authenticator.authenticate({
+      ...credentials,
+      message: credentials.message.replace('Ethereum', 'Solana')
+    });
+    expect(result).toEqual({ success: false, reason: 'Invalid signature' });
+  });
+
+  it('should reject messages for unknown or mismatched fids', async () => {
+    expect(await authenticator.authenticate(signMessage('456')))
+      .toEqual({ success: false, reason: 'Unknown custody key' });
+    expect(await authenticator.authenticate({ ...signMessage('456'), fid: '123' }))
+      .toEqual({ success: false, reason: 'Message does not match fid' });
+  });
+
+  it('should reject expired messages', async () => {
+    const result = await authenticator.authenticate(signMessage('123', new Date(Date.now() - 120 * 1000)));
+    expect(result).toEqual({ success: false, reason: 'Message expired' });
+  });
+
+  it('should reject messages issued in the future', async () => {
+    const result = await authenticator.authenticate(signMessage('123', new Date(Date.now() + 120 * 1000)));
+    expect(result).toEqual({ success: false, reason: 'Message issued in the future' });
+  });
+
+  it('should reject a replayed message', async () => {
+    const credentials = signMessage('123');
+    expect((await authenticator.authenticate(credentials)).success).toBe(true);
+    expect(await authenticator.authenticate(credentials))
+      .toEqual({ success: false, reason: 'Message already used' });
+  });
+
+  it('should reject a replayed message with a re-encoded signature', async () => {
+    const credentials = signMessage('123');
+    expect((await authenticator.authenticate(credentials)).success).toBe(true);
+
+    const unpadded = credentials.signature.replace(/=+$/, '');
+    expect(unpadded).not.toBe(credentials.signature);
+    expect(await authenticator.authenticate({ ...credentials, signature: unpadded }))
+      .toEqual({ success: false, reason: 'Message already used' });
+  });
+
+  it('should reject credentials that are not strings', async () => {
+    const result = await authenticator.authenticate({ ...signMessage('123'), signature: 5 } as any);
+    expect(result).toEqual({ success: false, reason: 'Malformed signed message' });
+  });
+});
+
+describe('TokenAuthenticator', () => {
+  let authenticator: TokenAuthenticator;
+
+  beforeEach(() => {
+    authenticator = new TokenAuthenticator('test-secret');
+  });
+
+  it('should accept tokens it issued', async () => {
+    const token = authenticator.issueToken('123');
+    const result = await authenticator.authenticate({ fid: '123', token });
+    expect(result).toEqual({ success: true, user: { fid: '123' } });
+  });
+
+  it('should reject tokens signed with another secret', async () => {
+    const token = new TokenAuthenticator('other-secret').issueToken('123');
+    const result = await authenticator.authenticate({ fid: '123', token });
+    expect(result).toEqual({ success: false, reason: 'Invalid signature' });
+  });
+
+  it('should reject tokens for another fid or past expiry', async () => {
+    expect(await authenticator.authenticate({ fid: '456', token: authenticator.issueToken('123') }))
+      .toEqual({ success: false, reason: 'Token does not match fid' });
+    expect(await authenticator.authenticate({ fid: '123', token: authenticator.issueToken('123', -60) }))
+      .toEqual({ success: false, reason: 'Token expired' });
+  });
+
+  it('should reject a token that is not a string', async () => {
+    const result = await authenticator.authenticate({ fid: '123', token: 5 } as any);
+    expect(result).toEqual({ success: false, reason: 'Malformed token' });
+  });
+});
+
+describe('CompositeAuthenticator', () => {
+  it('should accept credentials verified by any authenticator', async () => {
+    const tokens = new TokenAuthenticator('test-secret');
+    const authenticator = new CompositeAuthenticator([
+      new SignedMessageAuthenticator(new Map([['123', publicKey]])),
+      tokens
+    ]);
+
+    expect((await authenticator.authenticate(signMessage('123'))).success).toBe(true);
+    expect((await authenticator.authenticate({ fid: '123', token: tokens.issueToken('123') })).success).toBe(true);
+    expect((await authenticator.authenticate({ fid: '123' })).success).toBe(false);
+  });
+});
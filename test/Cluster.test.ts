@@ -0,0 +1,108 @@
+import { Server } from 'socket.io';
+import { io as Client } from 'socket.io-client';
+import { createServer } from 'http';
+import { generateKeyPairSync, randomUUID, sign } from 'crypto';
+import { SocketServer } from '../src/server/SocketServer';
+import { SignedMessageAuthenticator } from '../src/auth/SignedMessageAuthenticator';
+import { LocalClusterBackend } from '../src/cluster/LocalClusterBackend';
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mock } from 'bun:test';
+
+// Mock mediasoup
+mock.module('mediasoup', () => {
+  const mockRouter = {
+    id: 'test-router-id',
+    rtpCapabilities: {},
+    createWebRtcTransport: async () => ({ id: 'test-transport-id', close: () => {} }),
+    createAudioLevelObserver: async () => ({ on: () => {}, addProducer: async () => undefined }),
+    createActiveSpeakerObserver: async () => ({ on: () => {}, addProducer: async () => undefined }),
+    close: () => {}
+  };
+
+  const mockWorker = {
+    pid: 1,
+    on: () => {},
+    createRouter: async () => mockRouter,
+    close: () => {}
+  };
+
+  return {
+    createWorker: async () => mockWorker,
+    types: {}
+  };
+});
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+
+const credentials = (fid: string) => {
+  const message = [
+    'localhost wants you to sign in with your Ethereum account:',
+    `Resources:\n- farcaster://fid/${fid}`,
+    `Nonce: ${randomUUID()}`,
+    `Issued At: ${new Date().toISOString()}`
+  ].join('\n');
+  return { fid, message, signature: sign(null, Buffer.from(message), privateKey).toString('base64') };
+};
+
+describe('Cluster', () => {
+  const backend = new LocalClusterBackend();
+  const nodes: Array<{ httpServer: any; io: Server; socketServer: SocketServer; port: number }> = [];
+
+  beforeAll(async () => {
+    for (const [index, port] of [3002, 3003].entries()) {
+      const httpServer = createServer();
+      const io = new Server(httpServer);
+      const socketServer = new SocketServer(io, {
+        authenticator: new SignedMessageAuthenticator(new Map([['host-fid', publicKey], ['listener-fid', publicKey]])),
+        media: { numWorkers: 1 },
+        cluster: {
+          node: { id: `node-${index}`, url: `http://localhost:${port}` },
+          state: backend,
+          pubsub: backend.connect()
+        }
+      });
+      await socketServer.init();
+      await new Promise<void>(resolve => httpServer.listen(port, resolve));
+      nodes.push({ httpServer, io, socketServer, port });
+    }
+  });
+
+  afterAll(() => {
+    nodes.forEach(({ io, httpServer }) => {
+      io.close();
+      httpServer.close();
+    });
+  });
+
+  test('should share rooms and broadcasts across nodes and redirect to the owner', () => {
+    return new Promise<void>((done) => {
+      const host = Client(`http://localhost:${nodes[0].port}`, { auth: credentials('host-fid') });
+      const listener = Client(`http://localhost:${nodes[1].port}`, { auth: credentials('listener-fid') });
+
+      listener.on('connect', () => {
+        listener.emit('subscribe-lobby');
+      });
+
+      listener.on('lobby-snapshot', () => {
+        host.emit('create-room', { name: 'Cluster Room' });
+      });
+
+      listener.on('lobby-update', async ({ added: [room] }: any) => {
+        expect(room.name).toBe('Cluster Room');
+
+        const rooms = await nodes[1].socketServer.listRooms();
+        expect(rooms.map(r => r.id)).toContain(room.id);
+
+        listener.emit('join-room', room.id);
+      });
+
+      listener.on('room-redirect', (redirect: any) => {
+        expect(redirect.nodeId).toBe('node-0');
+        expect(redirect.url).toBe(`http://localhost:${nodes[0].port}`);
+        host.close();
+        listener.close();
+        done();
+      });
+    });
+  });
+});
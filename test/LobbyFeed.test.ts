@@ -0,0 +1,47 @@
+import { LobbyFeed } from '../src/server/LobbyFeed';
+import { RoomManager } from '../src/server/RoomManager';
+import { LobbyChanges } from '../src/types/Discovery';
+
+describe('LobbyFeed', () => {
+  it('should send added, updated and removed public rooms grouped by tags', async () => {
+    const sent: Array<[string[], LobbyChanges]> = [];
+    const feed = new LobbyFeed(20, (tags, changes) => sent.push([tags, changes]));
+    const roomManager = new RoomManager();
+    roomManager.on('room-updated', room => feed.update(room));
+
+    const music = roomManager.createRoom({ fid: 'host-fid' }, 'Jazz', ['music']);
+    roomManager.createRoom({ fid: 'host-fid' }, 'Standup', ['work'], { visibility: 'unlisted' });
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0][0]).toEqual(['music']);
+    expect(sent[0][1].added.map(room => room.id)).toEqual([music.id]);
+
+    roomManager.joinRoom(music.id, 'listener-fid');
+    roomManager.addReaction(music.id, 'listener-fid', 'like');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(sent[1][1]).toEqual({
+      added: [],
+      removed: [],
+      updated: [{ id: music.id, speakerCount: 1, listenerCount: 1, topSpeakers: ['host-fid'] }]
+    });
+
+    roomManager.closeRoom(music.id);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(sent[2][1].removed).toEqual([music.id]);
+  });
+
+  it('should send nothing when listed counts did not change', async () => {
+    const sent: unknown[] = [];
+    const feed = new LobbyFeed(20, (_tags, changes) => sent.push(changes));
+    const roomManager = new RoomManager();
+    const room = roomManager.createRoom({ fid: 'host-fid' }, 'Jazz');
+    feed.update(room);
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    roomManager.on('room-updated', updated => feed.update(updated));
+    roomManager.addReaction(room.id, 'host-fid', 'like');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(sent).toHaveLength(1);
+  });
+});
@@ -1,19 +1,56 @@
 import { MediasoupBroadcaster } from '../src/broadcasters/MediasoupBroadcaster';
+import { WorkerPool } from '../src/broadcasters/WorkerPool';
 import { User } from '../src/types/Room';
 import { describe, test, expect, beforeEach } from 'bun:test';
 
 // Mock mediasoup
 import { mock } from 'bun:test';
 
+// Number of WebRTC transports created through the mock routers
+let createdTransports = 0;
+
+// Workers created through the mock, in creation order
+const mockWorkers: any[] = [];
+
+// Producers piped between routers, as [producerId, target router ID]
+const pipedProducers: Array<[string, string]> = [];
+
+// RTP observers created through the mock routers, in creation order
+const mockObservers: any[] = [];
+
+const createMockObserver = () => {
+  const handlers: Record<string, (...args: any[]) => void> = {};
+  const observer = {
+    producerIds: [] as string[],
+    on: (event: string, handler: (...args: any[]) => void) => { handlers[event] = handler; },
+    trigger: (event: string, ...args: any[]) => handlers[event]?.(...args),
+    addProducer: async ({ producerId }) => { observer.producerIds.push(producerId); },
+    close: () => {}
+  };
+  mockObservers.push(observer);
+  return observer;
+};
+
 // Create the mock before importing the module that uses it
 mock.module('mediasoup', () => {
-  const mockRouter = {
+  let routerCount = 0;
+
+  const createMockRouter = () => ({
+    id: `test-router-${++routerCount}`,
     rtpCapabilities: {},
-    createWebRtcTransport: async ({ listenIps }) => ({
+    canConsume: ({ producerId, rtpCapabilities }) => Array.isArray(rtpCapabilities?.codecs),
+    createAudioLevelObserver: async () => createMockObserver(),
+    createActiveSpeakerObserver: async () => createMockObserver(),
+    pipeToRouter: async ({ producerId, router }) => {
+      pipedProducers.push([producerId, router.id]);
+      return { pipeConsumer: {}, pipeProducer: { id: producerId } };
+    },
+    createWebRtcTransport: async ({ listenIps }) => (createdTransports++, {
       id: 'test-transport-id',
       iceParameters: { usernameFragment: 'test', password: 'test' },
       iceCandidates: [{ foundation: '1', port: 1234 }],
       dtlsParameters: { fingerprints: [{ algorithm: 'sha-256', value: 'test' }] },
+      connect: async ({ dtlsParameters }) => undefined,
       produce: async ({ kind, rtpParameters }) => ({
         id: 'test-producer-id',
         kind,
@@ -22,8 +59,9 @@ mock.module('mediasoup', () => {
         resume: async () => undefined,
         close: () => {}
       }),
-      consume: async ({ producerId, rtpCapabilities }) => ({
+      consume: async ({ producerId, rtpCapabilities, paused }) => ({
         id: 'test-consumer-id',
+        paused,
         kind: 'audio',
         rtpParameters: {
           codecs: [{
@@ -36,20 +74,30 @@ mock.module('mediasoup', () => {
         },
         type: 'simple',
         producerPaused: false,
+        on: () => {},
+        resume: async () => undefined,
         close: () => {}
       }),
       close: () => {}
     }),
     close: () => {}
-  };
+  });
 
-  const mockWorker = {
-    createRouter: async ({ mediaCodecs }) => mockRouter,
-    close: () => {}
+  const createMockWorker = () => {
+    const handlers: Record<string, (error: Error) => void> = {};
+    const worker = {
+      pid: mockWorkers.length + 1,
+      on: (event: string, handler: (error: Error) => void) => { handlers[event] = handler; },
+      die: () => handlers.died?.(new Error('worker crashed')),
+      createRouter: async ({ mediaCodecs }) => createMockRouter(),
+      close: () => {}
+    };
+    mockWorkers.push(worker);
+    return worker;
   };
 
   return {
-    createWorker: async () => mockWorker,
+    createWorker: async () => createMockWorker(),
     types: {
       RouterOptions: {},
       WebRtcTransportOptions: {},
@@ -64,13 +112,15 @@ describe('MediasoupBroadcaster', () => {
   let broadcaster: MediasoupBroadcaster;
   let testUser: User;
 
-  beforeEach(() => {
-    broadcaster = new MediasoupBroadcaster();
+  beforeEach(async () => {
+    broadcaster = new MediasoupBroadcaster({ numWorkers: 1 });
+    await broadcaster.init();
+    await broadcaster.createRoomRouter('test-room');
     testUser = { fid: 'test-user-1' };
   });
 
   test('should create transport', async () => {
-    const transport = await broadcaster.createTransport(testUser);
+    const transport = await broadcaster.createTransport(testUser, 'test-room');
 
     expect(transport).toHaveProperty('id', 'test-transport-id');
     expect(transport).toHaveProperty('iceParameters');
@@ -78,8 +128,49 @@ describe('MediasoupBroadcaster', () => {
     expect(transport).toHaveProperty('dtlsParameters');
   });
 
+  test('should report readiness and require init before creating routers', async () => {
+    const uninitialized = new MediasoupBroadcaster({ numWorkers: 1 });
+    expect(uninitialized.getState()).toBe('idle');
+    await expect(uninitialized.createRoomRouter('other-room'))
+      .rejects
+      .toThrow('Media workers not ready');
+
+    await uninitialized.init();
+    expect(uninitialized.getState()).toBe('ready');
+  });
+
+  test('should recreate room routers when their worker dies', async () => {
+    const transport = await broadcaster.createTransport(testUser, 'test-room');
+    await broadcaster.handleProducer(testUser, transport.id, { codecs: [] } as any);
+
+    const reset = new Promise<string>(resolve => broadcaster.once('router-reset', resolve));
+    mockWorkers[mockWorkers.length - 1].die();
+
+    expect(await reset).toBe('test-room');
+    expect(broadcaster.hasProducer(testUser.fid)).toBe(false);
+    expect(() => broadcaster.getRouterCapabilities('test-room')).not.toThrow();
+  });
+
+  test('should expose router capabilities', async () => {
+    expect(broadcaster.getRouterCapabilities('test-room')).toEqual({});
+  });
+
+  test('should connect transport with DTLS parameters', async () => {
+    const transport = await broadcaster.createTransport(testUser, 'test-room');
+
+    await expect(broadcaster.connectTransport(testUser.fid, transport.id, transport.dtlsParameters))
+      .resolves
+      .toBeUndefined();
+    await expect(broadcaster.connectTransport(testUser.fid, 'missing-transport', transport.dtlsParameters))
+      .rejects
+      .toThrow('Transport not found');
+    await expect(broadcaster.connectTransport('other-fid', transport.id, transport.dtlsParameters))
+      .rejects
+      .toThrow('Transport not found');
+  });
+
   test('should handle producer creation', async () => {
-    const transport = await broadcaster.createTransport(testUser);
+    const transport = await broadcaster.createTransport(testUser, 'test-room');
 
     const rtpParameters = {
       codecs: [{
@@ -105,7 +196,7 @@ describe('MediasoupBroadcaster', () => {
 
   test('should handle consumer creation', async () => {
     // Setup producer first
-    const producerTransport = await broadcaster.createTransport(testUser);
+    const producerTransport = await broadcaster.createTransport(testUser, 'test-room');
     const rtpParameters = {
       codecs: [{
         payloadType: 111,
@@ -123,15 +214,63 @@ describe('MediasoupBroadcaster', () => {
 
     // Test consumer creation
     const consumerUser: User = { fid: 'test-consumer' };
-    const consumer = await broadcaster.createConsumer(consumerUser.fid, testUser.fid);
+    await broadcaster.createTransport(consumerUser, 'test-room', 'recv');
+    const consumer = await broadcaster.createConsumer(consumerUser.fid, testUser.fid, { codecs: [] });
 
     expect(consumer).toHaveProperty('transportId');
     expect(consumer).toHaveProperty('consumerId', 'test-consumer-id');
     expect(consumer).toHaveProperty('rtpParameters');
   });
 
+  test('should attach all consumers to the receive transport', async () => {
+    const speakers: User[] = [{ fid: 'speaker-1' }, { fid: 'speaker-2' }];
+    for (const speaker of speakers) {
+      const transport = await broadcaster.createTransport(speaker, 'test-room', 'send');
+      await broadcaster.handleProducer(speaker, transport.id, { codecs: [] } as any);
+    }
+
+    const consumerUser: User = { fid: 'test-consumer' };
+    const recvTransport = await broadcaster.createTransport(consumerUser, 'test-room', 'recv');
+    const transportsBefore = createdTransports;
+
+    for (const speaker of speakers) {
+      const consumer = await broadcaster.createConsumer(consumerUser.fid, speaker.fid, { codecs: [] });
+      expect(consumer.transportId).toBe(recvTransport.id);
+    }
+    expect(createdTransports).toBe(transportsBefore);
+  });
+
+  test('should require a receive transport and compatible capabilities', async () => {
+    const transport = await broadcaster.createTransport(testUser, 'test-room');
+    await broadcaster.handleProducer(testUser, transport.id, { codecs: [] } as any);
+
+    await expect(broadcaster.createConsumer('test-consumer', testUser.fid, { codecs: [] }))
+      .rejects
+      .toThrow('Receive transport not found');
+
+    await broadcaster.createTransport({ fid: 'test-consumer' }, 'test-room', 'recv');
+    await expect(broadcaster.createConsumer('test-consumer', testUser.fid, {}))
+      .rejects
+      .toThrow('Incompatible RTP capabilities');
+  });
+
+  test('should resume paused consumers on request', async () => {
+    const transport = await broadcaster.createTransport(testUser, 'test-room');
+    await broadcaster.handleProducer(testUser, transport.id, { codecs: [] } as any);
+    await broadcaster.createTransport({ fid: 'test-consumer' }, 'test-room', 'recv');
+
+    const consumer = await broadcaster.createConsumer('test-consumer', testUser.fid, { codecs: [] });
+
+    await expect(broadcaster.resumeConsumer('test-consumer', consumer.consumerId))
+      .resolves
+      .toBeUndefined();
+    await expect(broadcaster.resumeConsumer('test-consumer', 'missing-consumer'))
+      .rejects
+      .toThrow('Consumer not found');
+  });
+
   test('should handle mute/unmute', async () => {
-    const transport = await broadcaster.createTransport(testUser);
+    const transport = await broadcaster.createTransport(testUser, 'test-room');
     const rtpParameters = {
       codecs: [{
         payloadType: 111,
@@ -155,7 +294,7 @@ describe('MediasoupBroadcaster', () => {
   });
 
   test('should clean up resources on stop', async () => {
-    const transport = await broadcaster.createTransport(testUser);
+    const transport = await broadcaster.createTransport(testUser, 'test-room');
     const rtpParameters = {
       codecs: [{
         payloadType: 111,
@@ -177,4 +316,110 @@ describe('MediasoupBroadcaster', () => {
       .rejects
       .toThrow('Producer not found');
   });
-});
\ No newline at end of file
+
+  test('should stop producing but keep transports when leaving the stage', async () => {
+    const transport = await broadcaster.createTransport(testUser, 'test-room');
+    const rtpParameters = {
+      codecs: [{
+        payloadType: 111,
+        mimeType: 'audio/opus',
+        clockRate: 48000,
+        channels: 2,
+        parameters: {}
+      }],
+      headerExtensions: [],
+      encodings: [{ ssrc: 1234 }],
+      rtcp: { cname: 'test' }
+    };
+
+    await broadcaster.handleProducer(testUser, transport.id, rtpParameters);
+    await broadcaster.stopProducing(testUser.fid);
+
+    expect(broadcaster.hasProducer(testUser.fid)).toBe(false);
+    await expect(broadcaster.connectTransport(testUser.fid, transport.id, transport.dtlsParameters))
+      .resolves
+      .toBeUndefined();
+  });
+
+  test('should fan out listeners to piped routers past the consumer threshold', async () => {
+    const fanout = new MediasoupBroadcaster({ numWorkers: 2, consumersPerRouter: 1 });
+    await fanout.init();
+    await fanout.createRoomRouter('big-room');
+
+    const transport = await fanout.createTransport(testUser, 'big-room', 'send');
+    await fanout.handleProducer(testUser, transport.id, { codecs: [] } as any);
+
+    await fanout.createTransport({ fid: 'listener-1' }, 'big-room', 'recv');
+    await fanout.createConsumer('listener-1', testUser.fid, { codecs: [] });
+    await fanout.createTransport({ fid: 'listener-2' }, 'big-room', 'recv');
+    await fanout.createConsumer('listener-2', testUser.fid, { codecs: [] });
+
+    const state = fanout.getRoomMediaState('big-room');
+    expect(state?.routers.map(router => router.role)).toEqual(['origin', 'listener']);
+    expect(state?.routers[0].listeners).toEqual(['listener-1']);
+    expect(state?.routers[1].listeners).toEqual(['listener-2']);
+    expect(state?.routers[1].consumers).toBe(1);
+    expect(pipedProducers).toContainEqual(['test-producer-id', state!.routers[1].routerId]);
+  });
+  test('should report audio levels and the active speaker of a room', async () => {
+    const observed = new MediasoupBroadcaster({ numWorkers: 1 });
+    await observed.init();
+    await observed.createRoomRouter('loud-room');
+    const [audioLevel, activeSpeaker] = mockObservers.slice(-2);
+
+    const transport = await observed.createTransport(testUser, 'loud-room', 'send');
+    await observed.handleProducer(testUser, transport.id, { codecs: [] } as any);
+    expect(audioLevel.producerIds).toEqual(['test-producer-id']);
+    expect(activeSpeaker.producerIds).toEqual(['test-producer-id']);
+
+    const levels: any[] = [];
+    const speakers: string[] = [];
+    observed.on('audio-levels', (roomId: string, roomLevels: any[]) => levels.push([roomId, roomLevels]));
+    observed.on('active-speaker', (roomId: string, fid: string) => speakers.push(fid));
+
+    audioLevel.trigger('volumes', [{ producer: { id: 'test-producer-id' }, volume: -20 }]);
+    audioLevel.trigger('silence');
+    activeSpeaker.trigger('dominantspeaker', { producer: { id: 'test-producer-id' } });
+
+    expect(levels).toEqual([['loud-room', [{ fid: testUser.fid, volume: -20 }]], ['loud-room', []]]);
+    expect(speakers).toEqual([testUser.fid]);
+    expect(Object.keys(observed.getSpeakingTime('loud-room'))).toEqual([testUser.fid]);
+    expect(observed.getActiveSpeaker('loud-room')).toBe(testUser.fid);
+  });
+});
+
+describe('WorkerPool', () => {
+  let pool: WorkerPool;
+
+  beforeEach(async () => {
+    pool = new WorkerPool({ numWorkers: 3 });
+    await pool.init();
+  });
+
+  test('should place routers on the least-loaded worker', async () => {
+    const routers = [];
+    for (let i = 0; i < 4; i++) {
+      routers.push(await pool.createRouter({ mediaCodecs: [] }));
+    }
+    expect(pool.getLoad()).toEqual([2, 1, 1]);
+
+    pool.releaseRouter(routers[1]);
+    expect(pool.getLoad()).toEqual([2, 0, 1]);
+
+    await pool.createRouter({ mediaCodecs: [] });
+    expect(pool.getLoad()).toEqual([2, 1, 1]);
+  });
+
+  test('should replace dead workers and report lost routers', async () => {
+    const first = mockWorkers.length - 3;
+    await pool.createRouter({ mediaCodecs: [] });
+    const lost = await pool.createRouter({ mediaCodecs: [] });
+
+    const died = new Promise<string[]>(resolve => pool.once('worker-died', resolve));
+    mockWorkers[first + 1].die();
+
+    expect(await died).toEqual([lost.id]);
+    expect(pool.getLoad()).toEqual([1, 0, 0]);
+    expect(mockWorkers.length).toBe(first + 4);
+  });
+});
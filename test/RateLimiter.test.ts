@@ -0,0 +1,23 @@
+import { RateLimiter } from '../src/server/RateLimiter';
+
+describe('RateLimiter', () => {
+  it('should refuse events once a user has used up their burst', () => {
+    const limiter = new RateLimiter({ 'send-reaction': { capacity: 2, refillPerSecond: 1 } });
+
+    expect(limiter.consume('fid-1', 'send-reaction')).toBe(0);
+    expect(limiter.consume('fid-1', 'send-reaction')).toBe(0);
+    expect(limiter.consume('fid-1', 'send-reaction')).toBeGreaterThan(900);
+    expect(limiter.consume('fid-2', 'send-reaction')).toBe(0);
+    expect(limiter.consume('fid-1', 'raise-hand')).toBe(0);
+  });
+
+  it('should refill tokens over time', async () => {
+    const limiter = new RateLimiter({ 'send-message': { capacity: 1, refillPerSecond: 50 } });
+
+    expect(limiter.consume('fid-1', 'send-message')).toBe(0);
+    expect(limiter.consume('fid-1', 'send-message')).toBeGreaterThan(0);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(limiter.consume('fid-1', 'send-message')).toBe(0);
+  });
+});
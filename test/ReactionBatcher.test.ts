@@ -0,0 +1,32 @@
+import { ReactionBatcher, ReactionCounts } from '../src/server/ReactionBatcher';
+
+describe('ReactionBatcher', () => {
+  it('should send the counts of each window once it ends', async () => {
+    const sent: Array<[string, ReactionCounts]> = [];
+    const batcher = new ReactionBatcher(20, (roomId, counts) => sent.push([roomId, counts]));
+
+    batcher.add('room-1', 'like');
+    batcher.add('room-1', 'like');
+    batcher.add('room-1', 'fire');
+    batcher.add('room-2', 'clap');
+    expect(sent).toEqual([]);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(sent).toEqual([['room-1', { like: 2, fire: 1 }], ['room-2', { clap: 1 }]]);
+
+    batcher.add('room-1', 'heart');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(sent[2]).toEqual(['room-1', { heart: 1 }]);
+  });
+
+  it('should drop pending reactions of a cleared room', async () => {
+    const sent: unknown[] = [];
+    const batcher = new ReactionBatcher(20, (_roomId, counts) => sent.push(counts));
+
+    batcher.add('room-1', 'like');
+    batcher.clear('room-1');
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(sent).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { createSocket } from 'dgram';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RecordingManager } from '../src/recording/RecordingManager';
+import { MediasoupBroadcaster } from '../src/broadcasters/MediasoupBroadcaster';
+import { RecordingMetadata } from '../src/types/Recording';
+
+/**
+ * Builds an RTP packet carrying a 20 ms CELT Opus frame
+ */
+const rtpPacket = (sequenceNumber: number, timestamp: number) => {
+  const header = Buffer.alloc(12);
+  header.writeUInt8(0x80, 0);
+  header.writeUInt8(100, 1);
+  header.writeUInt16BE(sequenceNumber, 2);
+  header.writeUInt32BE(timestamp, 4);
+  header.writeUInt32BE(1234, 8);
+  return Buffer.concat([header, Buffer.from([0xfc, 0xff, 0xfe])]);
+};
+
+/**
+ * Splits an Ogg file into its pages
+ */
+const readOggPages = (file: Buffer) => {
+  const pages: Array<{ flags: number; granulePosition: bigint; data: Buffer }> = [];
+  let offset = 0;
+  while (offset < file.length) {
+    expect(file.toString('ascii', offset, offset + 4)).toBe('OggS');
+    const segments = file[offset + 26];
+    const size = file.subarray(offset + 27, offset + 27 + segments).reduce((sum, value) => sum + value, 0);
+    const start = offset + 27 + segments;
+    pages.push({
+      flags: file[offset + 5],
+      granulePosition: file.readBigUInt64LE(offset + 6),
+      data: file.subarray(start, start + size)
+    });
+    offset = start + size;
+  }
+  return pages;
+};
+
+describe('RecordingManager', () => {
+  let directory: string;
+  let recorderPorts: number[];
+  let recordingManager: RecordingManager;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'recordings-'));
+    recorderPorts = [];
+    const broadcaster = {
+      hasProducer: (fid: string) => fid === 'speaker-fid',
+      createRecordingConsumer: async (_roomId: string, _fid: string, { port }: { port: number }) => {
+        recorderPorts.push(port);
+      },
+      closeRecordingTransports: () => {}
+    } as unknown as MediasoupBroadcaster;
+    recordingManager = new RecordingManager(broadcaster, { directory });
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should record producing speakers to Ogg/Opus files', async () => {
+    const { id } = await recordingManager.start('room-1', ['host-fid', 'speaker-fid']);
+    expect(recorderPorts.length).toBe(1);
+
+    const sender = createSocket('udp4');
+    for (const [sequenceNumber, timestamp] of [[1, 1000], [2, 1960], [3, 2920]]) {
+      await new Promise(resolve => sender.send(rtpPacket(sequenceNumber, timestamp), recorderPorts[0], '127.0.0.1', resolve));
+    }
+    sender.close();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await recordingManager.stop('room-1');
+
+    const pages = readOggPages(readFileSync(join(directory, id, 'speaker-fid.ogg')));
+    expect(pages[0].data.toString('ascii', 0, 8)).toBe('OpusHead');
+    expect(pages[1].data.toString('ascii', 0, 8)).toBe('OpusTags');
+    expect(pages.length).toBe(5);
+    expect(pages[4].flags).toBe(0x04);
+    expect(pages[4].granulePosition).toBe(2880n);
+  });
+
+  it('should write the speaker timeline and stage events to the sidecar', async () => {
+    const { id } = await recordingManager.start('room-1', ['host-fid']);
+    recordingManager.recordActivity({ roomId: 'room-1', type: 'promoted', fid: 'guest-fid', timestamp: 1 });
+    recordingManager.recordActivity({ roomId: 'room-1', type: 'muted', fid: 'guest-fid', timestamp: 2 });
+    recordingManager.recordActivity({ roomId: 'room-1', type: 'demoted', fid: 'guest-fid', timestamp: 3 });
+    recordingManager.recordActivity({ roomId: 'room-2', type: 'promoted', fid: 'other-fid', timestamp: 4 });
+    await recordingManager.stop('room-1');
+
+    const metadata: RecordingMetadata = JSON.parse(readFileSync(join(directory, id, 'metadata.json'), 'utf8'));
+    expect(metadata.roomId).toBe('room-1');
+    expect(metadata.speakers.map(speaker => speaker.fid)).toEqual(['host-fid', 'guest-fid']);
+    expect(metadata.speakers[1]).toEqual({ fid: 'guest-fid', from: 1, until: 3 });
+    expect(metadata.events.map(event => event.type)).toEqual(['promoted', 'muted', 'demoted']);
+    expect(recordingManager.isRecording('room-1')).toBe(false);
+  });
+
+  it('should report tracks that can no longer be written', async () => {
+    const { id } = await recordingManager.start('room-1', ['host-fid']);
+    rmSync(join(directory, id), { recursive: true, force: true });
+
+    const failure = new Promise<[string, Error]>(resolve => {
+      recordingManager.once('recording-failed', (roomId: string, error: Error) => resolve([roomId, error]));
+    });
+    await recordingManager.addTrack('room-1', 'speaker-fid');
+
+    const [roomId, error] = await failure;
+    expect(roomId).toBe('room-1');
+    expect((error as NodeJS.ErrnoException).code).toBe('ENOENT');
+    await recordingManager.stop('room-1').catch(() => undefined);
+  });
+});
@@ -0,0 +1,120 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RoomArchive } from '../src/archive/RoomArchive';
+import { RoomManager } from '../src/server/RoomManager';
+import { FileArchiveStore } from '../src/store/FileArchiveStore';
+import { Room, RoomActivity } from '../src/types/Room';
+
+describe('RoomArchive', () => {
+  let roomManager: RoomManager;
+  let archive: RoomArchive;
+
+  beforeEach(() => {
+    roomManager = new RoomManager();
+    archive = new RoomArchive({ reactionSpikeThreshold: 3, minChapterMs: 0 });
+    roomManager.on('room-created', (room: Room) => archive.open(room));
+    roomManager.on('activity', (activity: RoomActivity) => archive.recordActivity(activity));
+  });
+
+  it('should capture the timeline of a room until it closes', async () => {
+    const room = roomManager.createRoom({ fid: 'host-fid' }, 'Test Room');
+    roomManager.joinRoom(room.id, 'listener-fid');
+    roomManager.addSpeaker(room.id, 'listener-fid');
+    roomManager.setMuted(room.id, 'listener-fid', true);
+    roomManager.removeSpeaker(room.id, 'listener-fid');
+
+    expect(await archive.get(room.id)).toBeUndefined();
+    await archive.close(room);
+
+    const entry = await archive.get(room.id);
+    expect(entry?.timeline.map(event => event.type)).toEqual(['joined', 'promoted', 'muted', 'demoted']);
+    expect(entry?.participants).toEqual(['host-fid', 'listener-fid']);
+    expect(entry?.closedAt).toBeDefined();
+  });
+
+  it('should record a single spike for a burst of reactions', async () => {
+    const room = roomManager.createRoom({ fid: 'host-fid' }, 'Test Room');
+    for (const fid of ['a', 'b', 'c', 'd']) {
+      roomManager.addReaction(room.id, fid, 'fire');
+      archive.recordReactions(room);
+    }
+    await archive.close(room);
+
+    const spikes = (await archive.get(room.id))?.timeline.filter(event => event.type === 'reaction-spike');
+    expect(spikes?.length).toBe(1);
+    expect(spikes?.[0].reactions).toBe(4);
+  });
+
+  it('should start a chapter whenever the stage changes', async () => {
+    const room = roomManager.createRoom({ fid: 'host-fid' }, 'Test Room');
+    roomManager.joinRoom(room.id, 'guest-fid');
+    roomManager.addSpeaker(room.id, 'guest-fid');
+    roomManager.removeUser(room.id, 'guest-fid');
+    await archive.close(room);
+
+    const chapters = (await archive.get(room.id))?.chapters;
+    expect(chapters?.map(chapter => chapter.title)).toEqual(['Opening', 'guest-fid joins the stage', 'guest-fid leaves the stage']);
+    expect(chapters?.[1].speakers).toEqual(['host-fid', 'guest-fid']);
+    expect(chapters?.[2].speakers).toEqual(['host-fid']);
+  });
+
+  it('should only show archived private rooms to their members', async () => {
+    const room = roomManager.createRoom({ fid: 'host-fid' }, 'Private', [], { visibility: 'invite-only' });
+    roomManager.joinRoom(room.id, 'listener-fid');
+    roomManager.allowUser(room.id, 'invited-fid');
+    const entry = await archive.close(room);
+
+    expect(entry?.visibility).toBe('invite-only');
+    expect(archive.canView(entry!)).toBe(false);
+    expect(archive.canView(entry!, 'stranger-fid')).toBe(false);
+    expect(archive.canView(entry!, 'host-fid')).toBe(true);
+    expect(archive.canView(entry!, 'listener-fid')).toBe(true);
+    expect(archive.canView(entry!, 'invited-fid')).toBe(true);
+  });
+
+  it('should attach media to archived rooms', async () => {
+    const room = roomManager.createRoom({ fid: 'host-fid' }, 'Test Room');
+    await archive.close(room);
+
+    const media = await archive.attachMedia(room.id, { file: '/tmp/host.ogg', mimeType: 'audio/ogg' });
+    expect((await archive.get(room.id))?.media).toEqual([media]);
+    await expect(archive.attachMedia('unknown', { file: '/tmp/host.ogg', mimeType: 'audio/ogg' })).rejects.toThrow('Archive entry not found');
+  });
+});
+
+describe('FileArchiveStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'archive-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep entries across instances', async () => {
+    const entry = {
+      roomId: 'room-1',
+      name: 'Room 1',
+      tags: [],
+      hostFid: 'host-fid',
+      visibility: 'public' as const,
+      allowedFids: [],
+      coHosts: [],
+      startedAt: 1,
+      closedAt: 2,
+      participants: ['host-fid'],
+      timeline: [],
+      chapters: [],
+      media: []
+    };
+    await new FileArchiveStore(directory).save(entry);
+
+    const store = new FileArchiveStore(directory);
+    expect(await store.get('room-1')).toEqual(entry);
+    expect(await store.list()).toEqual([entry]);
+    expect(await store.get('room-2')).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+import { RoomManager } from '../src/server/RoomManager';
+import { queryRooms, summarizeRoom } from '../src/server/discovery';
+import { Room } from '../src/types/Room';
+
+describe('room discovery', () => {
+  let roomManager: RoomManager;
+  let rooms: Room[];
+
+  beforeEach(() => {
+    roomManager = new RoomManager();
+    const host = { fid: 'host-fid' };
+    const music = roomManager.createRoom(host, 'Jazz Night', ['Music']);
+    const news = roomManager.createRoom(host, 'Morning News', ['news'], { description: 'Headlines and jazz' });
+    const chat = roomManager.createRoom(host, 'Open Chat', ['talk']);
+
+    ['a', 'b', 'c'].forEach(fid => roomManager.joinRoom(news.id, fid));
+    roomManager.joinRoom(chat.id, 'd');
+    roomManager.addReaction(music.id, 'a', 'fire');
+    roomManager.addReaction(music.id, 'b', 'fire');
+    music.createdAt = 3;
+    news.createdAt = 1;
+    chat.createdAt = 2;
+    rooms = [music, news, chat];
+  });
+
+  it('should filter by tag and search the name and description', () => {
+    expect(queryRooms(rooms, { tags: ['music', 'talk'] }).rooms.map(room => room.name)).toEqual(['Open Chat', 'Jazz Night']);
+    expect(queryRooms(rooms, { search: 'JAZZ' }).rooms.map(room => room.name)).toEqual(['Morning News', 'Jazz Night']);
+  });
+
+  it('should sort by listeners, recency and recent reactions', () => {
+    const names = (sort: 'listeners' | 'recent' | 'reactions') => queryRooms(rooms, { sort }).rooms.map(room => room.name);
+
+    expect(names('listeners')).toEqual(['Morning News', 'Open Chat', 'Jazz Night']);
+    expect(names('recent')).toEqual(['Jazz Night', 'Open Chat', 'Morning News']);
+    expect(names('reactions')[0]).toBe('Jazz Night');
+    expect(() => queryRooms(rooms, { sort: 'name' as any })).toThrow('Sort must be one of');
+  });
+
+  it('should page through rooms with cursors', () => {
+    const first = queryRooms(rooms, { limit: 2 });
+    const second = queryRooms(rooms, { limit: 2, cursor: first.nextCursor });
+
+    expect(first.rooms.map(room => room.name)).toEqual(['Morning News', 'Open Chat']);
+    expect(second.rooms.map(room => room.name)).toEqual(['Jazz Night']);
+    expect(second.nextCursor).toBeUndefined();
+    expect(() => queryRooms(rooms, { cursor: 'garbage' })).toThrow('Invalid cursor');
+  });
+
+  it('should list every matching room without a cursor when not paginating', () => {
+    const listed = queryRooms(rooms, { limit: 1, paginate: false });
+
+    expect(listed.rooms.map(room => room.name)).toEqual(['Morning News', 'Open Chat', 'Jazz Night']);
+    expect(listed.nextCursor).toBeUndefined();
+  });
+
+  it('should summarize rooms with counts', () => {
+    const summary = summarizeRoom(rooms[1]);
+
+    expect(summary).toMatchObject({ name: 'Morning News', speakerCount: 1, listenerCount: 3, recentReactionCount: 0 });
+    expect(summary).not.toHaveProperty('listeners');
+  });
+});
@@ -0,0 +1,29 @@
+import { RoomEventThrottle } from '../src/server/RoomEventThrottle';
+
+describe('RoomEventThrottle', () => {
+  it('should send the first event at once and only the latest one per interval', async () => {
+    const sent: Array<[string, string, unknown]> = [];
+    const throttle = new RoomEventThrottle(20, (roomId, event, payload) => sent.push([roomId, event, payload]));
+
+    throttle.push('room-1', 'audio-levels', 1);
+    throttle.push('room-1', 'audio-levels', 2);
+    throttle.push('room-1', 'audio-levels', 3);
+    throttle.push('room-2', 'audio-levels', 4);
+    expect(sent).toEqual([['room-1', 'audio-levels', 1], ['room-2', 'audio-levels', 4]]);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(sent).toEqual([['room-1', 'audio-levels', 1], ['room-2', 'audio-levels', 4], ['room-1', 'audio-levels', 3]]);
+  });
+
+  it('should drop pending events of a cleared room', async () => {
+    const sent: unknown[] = [];
+    const throttle = new RoomEventThrottle(20, (_roomId, _event, payload) => sent.push(payload));
+
+    throttle.push('room-1', 'active-speaker', 1);
+    throttle.push('room-1', 'active-speaker', 2);
+    throttle.clear('room-1');
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(sent).toEqual([1]);
+  });
+});
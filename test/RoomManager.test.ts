@@ -1,5 +1,6 @@
 import { RoomManager } from '../src/server/RoomManager';
 import { User, ReactionType } from '../src/types/Room';
+import { MemoryRoomStore } from '../src/store/MemoryRoomStore';
 
 describe('RoomManager', () => {
   let roomManager: RoomManager;
@@ -34,6 +35,20 @@ describe('RoomManager', () => {
       expect(activeRooms[0].id).toBe(room2.id);
     });
 
+    it('should forget closed rooms and keep them out of the store', async () => {
+      const store = new MemoryRoomStore();
+      const manager = new RoomManager({ store });
+      const room = manager.createRoom(testUser);
+      manager.joinRoom(room.id, 'test-listener');
+
+      manager.closeRoom(room.id);
+      manager.removeUser(room.id, 'test-listener');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(manager.getRoom(room.id)).toBeUndefined();
+      expect(await store.get(room.id)).toBeUndefined();
+    });
+
     it('should handle speaker promotion and demotion', () => {
       const room = roomManager.createRoom(testUser);
       const listener: User = { fid: 'test-listener' };
@@ -47,11 +62,86 @@ describe('RoomManager', () => {
       expect(room.listeners.has(listener.fid)).toBe(true);
     });
 
+    it('should refuse to create a room with an ID in use', () => {
+      const room = roomManager.createRoom(testUser, 'First', [], { id: 'scheduled-id' });
+      expect(() => roomManager.createRoom(testUser, 'Second', [], { id: 'scheduled-id' })).toThrow('Room already exists');
+      expect(roomManager.getRoom('scheduled-id')).toBe(room);
+    });
+
     it('should not demote the host', () => {
       const room = roomManager.createRoom(testUser);
-      roomManager.removeSpeaker(room.id, testUser.fid);
+      expect(roomManager.removeSpeaker(room.id, testUser.fid)).toBe(false);
       expect(room.speakers.has(testUser.fid)).toBe(true);
     });
+
+    it('should only demote users who are on stage', () => {
+      const room = roomManager.createRoom(testUser);
+      expect(roomManager.removeSpeaker(room.id, 'stranger')).toBe(false);
+      expect(room.listeners.has('stranger')).toBe(false);
+    });
+  });
+
+  describe('joining and leaving', () => {
+    it('should not add speakers to the listeners when they rejoin', () => {
+      const room = roomManager.createRoom(testUser, 'Test Room');
+      roomManager.addSpeaker(room.id, 'test-speaker');
+
+      roomManager.joinRoom(room.id, 'test-speaker');
+      roomManager.joinRoom(room.id, testUser.fid);
+
+      expect(room.listeners.size).toBe(0);
+    });
+
+    it('should clear every role set when a user leaves', () => {
+      const room = roomManager.createRoom(testUser, 'Test Room');
+      roomManager.joinRoom(room.id, 'test-listener');
+      roomManager.raiseHand(room.id, 'test-listener');
+      roomManager.addCoHost(room.id, 'test-co-host');
+
+      roomManager.removeUser(room.id, 'test-listener');
+      roomManager.removeUser(room.id, 'test-co-host');
+
+      expect(room.listeners.has('test-listener')).toBe(false);
+      expect(room.raisedHands.has('test-listener')).toBe(false);
+      expect(room.speakers.has('test-co-host')).toBe(false);
+      expect(room.coHosts.has('test-co-host')).toBe(false);
+    });
+  });
+
+  describe('moderation', () => {
+    it('should protect the host and let only the host moderate co-hosts', () => {
+      const room = roomManager.createRoom(testUser, 'Test Room');
+      roomManager.addCoHost(room.id, 'co-host-fid');
+      roomManager.joinRoom(room.id, 'listener-fid');
+
+      expect(roomManager.canModerateUser(room.id, testUser.fid, 'co-host-fid')).toBe(true);
+      expect(roomManager.canModerateUser(room.id, 'co-host-fid', 'listener-fid')).toBe(true);
+      expect(roomManager.canModerateUser(room.id, 'co-host-fid', testUser.fid)).toBe(false);
+      expect(roomManager.canModerateUser(room.id, 'listener-fid', 'co-host-fid')).toBe(false);
+      roomManager.addCoHost(room.id, 'other-co-host-fid');
+      expect(roomManager.canModerateUser(room.id, 'co-host-fid', 'other-co-host-fid')).toBe(false);
+    });
+
+    it('should remove banned users and remember the ban', () => {
+      const room = roomManager.createRoom(testUser, 'Test Room');
+      roomManager.joinRoom(room.id, 'raider-fid');
+
+      roomManager.banUser(room.id, 'raider-fid');
+      roomManager.banUser(room.id, testUser.fid);
+
+      expect(room.listeners.has('raider-fid')).toBe(false);
+      expect(roomManager.isBanned(room.id, 'raider-fid')).toBe(true);
+      expect(roomManager.isBanned(room.id, testUser.fid)).toBe(false);
+    });
+
+    it('should lock and unlock a user\'s mute', () => {
+      const room = roomManager.createRoom(testUser, 'Test Room');
+
+      roomManager.lockMute(room.id, 'speaker-fid');
+      expect(roomManager.isMuteLocked(room.id, 'speaker-fid')).toBe(true);
+      roomManager.unlockMute(room.id, 'speaker-fid');
+      expect(roomManager.isMuteLocked(room.id, 'speaker-fid')).toBe(false);
+    });
   });
 
   describe('hand raising', () => {
@@ -71,6 +161,89 @@ describe('RoomManager', () => {
       roomManager.raiseHand(room.id, testUser.fid);
       expect(room.raisedHands.has(testUser.fid)).toBe(false);
     });
+ 
+    it('should keep raised hands in the order they were raised', () => {
+      const room = roomManager.createRoom(testUser);
+      roomManager.raiseHand(room.id, 'first-listener');
+      roomManager.raiseHand(room.id, 'second-listener');
+      roomManager.raiseHand(room.id, 'first-listener');
+
+      expect(Array.from(room.raisedHands.keys())).toEqual(['first-listener', 'second-listener']);
+
+      roomManager.lowerHand(room.id, 'first-listener');
+      roomManager.raiseHand(room.id, 'first-listener');
+      expect(Array.from(room.raisedHands.keys())).toEqual(['second-listener', 'first-listener']);
+    });
+  });
+
+  describe('hosting limits', () => {
+    it('should cap the active rooms a user hosts', () => {
+      const manager = new RoomManager({ maxRoomsPerHost: 2 });
+      const first = manager.createRoom(testUser, 'First');
+      manager.createRoom(testUser, 'Second');
+
+      expect(manager.canHost(testUser.fid)).toBe(false);
+      expect(manager.canHost(testUser.fid, first.id)).toBe(true);
+      expect(manager.canHost('other-fid')).toBe(true);
+
+      manager.closeRoom(first.id);
+      expect(manager.canHost(testUser.fid)).toBe(true);
+    });
+  });
+
+  describe('stage size', () => {
+    it('should cap the stage size at the server limit', () => {
+      const manager = new RoomManager({ maxSpeakers: 5 });
+      expect(manager.createRoom(testUser, 'Small', [], { maxSpeakers: 2 }).maxSpeakers).toBe(2);
+      expect(manager.createRoom(testUser, 'Large', [], { maxSpeakers: 50 }).maxSpeakers).toBe(5);
+    });
+
+    it('should refuse promotions once the stage is full', () => {
+      const room = roomManager.createRoom(testUser, 'Test Room', [], { maxSpeakers: 2 });
+      roomManager.joinRoom(room.id, 'first-listener');
+      roomManager.joinRoom(room.id, 'second-listener');
+
+      expect(roomManager.addSpeaker(room.id, 'first-listener')).toBe(true);
+      expect(roomManager.isStageFull(room.id)).toBe(true);
+      expect(roomManager.addSpeaker(room.id, 'second-listener')).toBe(false);
+      expect(roomManager.addCoHost(room.id, 'second-listener')).toBe(false);
+      expect(room.listeners.has('second-listener')).toBe(true);
+    });
+
+    it('should only invite listeners and drop the invitation on promotion', () => {
+      const room = roomManager.createRoom(testUser, 'Test Room');
+      roomManager.joinRoom(room.id, 'listener-fid');
+
+      expect(roomManager.inviteSpeaker(room.id, testUser.fid, testUser.fid)).toBeUndefined();
+      expect(roomManager.inviteSpeaker(room.id, 'listener-fid', testUser.fid)?.invitedBy).toBe(testUser.fid);
+
+      roomManager.addSpeaker(room.id, 'listener-fid');
+      expect(roomManager.getInvitation(room.id, 'listener-fid')).toBeUndefined();
+    });
+  });
+
+  describe('chat', () => {
+    it('should keep a bounded message history with replies', () => {
+      const manager = new RoomManager({ messageHistorySize: 2 });
+      const room = manager.createRoom(testUser, 'Test Room');
+
+      const first = manager.addMessage(room.id, testUser.fid, 'First')!;
+      const reply = manager.addMessage(room.id, 'listener-fid', 'Reply', first.id);
+      manager.addMessage(room.id, testUser.fid, 'Third');
+
+      expect(reply?.replyTo).toBe(first.id);
+      expect(room.messages.map(message => message.text)).toEqual(['Reply', 'Third']);
+      expect(manager.addMessage(room.id, testUser.fid, 'Late reply', first.id)).toBeUndefined();
+    });
+
+    it('should delete messages from the history', () => {
+      const room = roomManager.createRoom(testUser, 'Test Room');
+      const message = roomManager.addMessage(room.id, 'listener-fid', 'Hello')!;
+
+      expect(roomManager.deleteMessage(room.id, message.id)).toEqual(message);
+      expect(roomManager.getMessage(room.id, message.id)).toBeUndefined();
+      expect(roomManager.deleteMessage(room.id, message.id)).toBeUndefined();
+    });
   });
 
   describe('reactions', () => {
@@ -86,5 +259,170 @@ describe('RoomManager', () => {
       expect(room.reactions[room.reactions.length - 1].type).toBe('like');
       expect(room.reactions[room.reactions.length - 1].fid).toBe(testUser.fid);
     });
+
+    it('should only accept reactions from the room\'s set', () => {
+      const manager = new RoomManager({ allowedReactions: ['like', 'fire', ':farcaster:'] });
+      const room = manager.createRoom(testUser, 'Community', [], { reactions: [':farcaster:', 'fire'] });
+
+      expect(room.reactionSet).toEqual([':farcaster:', 'fire']);
+      expect(manager.addReaction(room.id, testUser.fid, ':farcaster:')?.type).toBe(':farcaster:');
+      expect(manager.addReaction(room.id, testUser.fid, 'like')).toBeUndefined();
+      expect(manager.createRoom(testUser, 'Default').reactionSet).toEqual(['like', 'fire', ':farcaster:']);
+    });
+
+    it('should refuse reaction sets outside the server\'s allowed reactions', () => {
+      expect(roomManager.findDisallowedReactions(['like', ':custom:'])).toEqual([':custom:']);
+      expect(() => roomManager.createRoom(testUser, 'Custom', [], { reactions: [':custom:'] })).toThrow(':custom:');
+    });
+
+    it('should keep running totals and attribute reactions to the active speaker', () => {
+      const room = roomManager.createRoom(testUser);
+      roomManager.addReaction(room.id, 'listener-fid', 'fire', testUser.fid);
+      roomManager.addReaction(room.id, 'listener-fid', 'clap', testUser.fid);
+      roomManager.addReaction(room.id, 'other-fid', 'fire');
+
+      expect(room.reactionStats).toEqual({
+        totals: { fire: 2, clap: 1 },
+        byReactor: { 'listener-fid': 2, 'other-fid': 1 },
+        bySpeaker: { [testUser.fid]: { fire: 1, clap: 1 } }
+      });
+    });
+  });
+
+  describe('co-hosts', () => {
+    it('should add and remove co-hosts on stage', () => {
+      const room = roomManager.createRoom(testUser, 'Test Room');
+      roomManager.joinRoom(room.id, 'test-listener');
+
+      roomManager.addCoHost(room.id, 'test-listener');
+      expect(roomManager.getRole(room.id, 'test-listener')).toBe('co-host');
+      expect(room.speakers.has('test-listener')).toBe(true);
+      expect(roomManager.canModerate(room.id, 'test-listener')).toBe(true);
+
+      roomManager.removeCoHost(room.id, 'test-listener');
+      expect(roomManager.getRole(room.id, 'test-listener')).toBe('speaker');
+      expect(roomManager.canModerate(room.id, 'test-listener')).toBe(false);
+    });
+
+    it('should transfer hosting to a participant only', () => {
+      const room = roomManager.createRoom(testUser, 'Test Room');
+      roomManager.joinRoom(room.id, 'test-listener');
+
+      expect(roomManager.transferHost(room.id, 'stranger')).toBe(false);
+      expect(roomManager.transferHost(room.id, 'test-listener')).toBe(true);
+      expect(room.hostFid).toBe('test-listener');
+      expect(roomManager.getRole(room.id, testUser.fid)).toBe('speaker');
+    });
+
+    it('should prefer present co-hosts, then the longest-tenured speaker', () => {
+      const room = roomManager.createRoom(testUser, 'Test Room');
+      roomManager.addSpeaker(room.id, 'first-speaker');
+      roomManager.addSpeaker(room.id, 'second-speaker');
+      roomManager.addCoHost(room.id, 'co-host');
+
+      expect(roomManager.findSuccessor(room.id, () => true)).toBe('co-host');
+      expect(roomManager.findSuccessor(room.id, fid => fid !== 'co-host')).toBe('first-speaker');
+      expect(roomManager.findSuccessor(room.id, () => false)).toBeUndefined();
+    });
+  });
+
+  describe('participants', () => {
+    it('should list roles and mute state, the stage first', () => {
+      const room = roomManager.createRoom(testUser, 'Room');
+      roomManager.joinRoom(room.id, 'listener-fid');
+      roomManager.joinRoom(room.id, 'speaker-fid');
+      roomManager.addSpeaker(room.id, 'speaker-fid');
+      roomManager.setMuted(room.id, 'speaker-fid', true);
+
+      expect(roomManager.listParticipants(room)).toEqual([
+        { fid: testUser.fid, role: 'host', muted: false, muteLocked: false },
+        { fid: 'speaker-fid', role: 'speaker', muted: true, muteLocked: false },
+        { fid: 'listener-fid', role: 'listener', muted: true, muteLocked: false }
+      ]);
+    });
+  });
+
+  describe('visibility', () => {
+    it('should admit anyone to public and unlisted rooms but list only public ones', () => {
+      const open = roomManager.createRoom(testUser, 'Open');
+      const unlisted = roomManager.createRoom(testUser, 'Standup', [], { visibility: 'unlisted' });
+
+      expect(roomManager.admitUser(unlisted.id, 'listener-fid')).toBeUndefined();
+      expect(roomManager.canView(open)).toBe(true);
+      expect(roomManager.canView(unlisted, 'listener-fid')).toBe(false);
+      expect(roomManager.canView(unlisted, testUser.fid)).toBe(true);
+    });
+
+    it('should admit allowed users and single-use invite codes to invite-only rooms', () => {
+      const room = roomManager.createRoom(testUser, 'Standup', [], { visibility: 'invite-only', allowedFids: ['allowed-fid'] });
+      const code = roomManager.createInviteCode(room.id)!;
+
+      expect(roomManager.admitUser(room.id, 'allowed-fid')).toBeUndefined();
+      expect(roomManager.admitUser(room.id, 'listener-fid')).toBe('This room is invite-only');
+      expect(roomManager.admitUser(room.id, 'listener-fid', { inviteCode: code })).toBeUndefined();
+      expect(roomManager.admitUser(room.id, 'other-fid', { inviteCode: code })).toBe('This room is invite-only');
+      expect(roomManager.canView(room, 'listener-fid')).toBe(true);
+    });
+
+    it('should check the password of password-protected rooms', () => {
+      expect(roomManager.checkRoomOptions({ visibility: 'password' })).toBe('Password-protected rooms need a password');
+      const room = roomManager.createRoom(testUser, 'Secret', [], { visibility: 'password', password: 'hunter2' });
+
+      expect(room.passwordHash).not.toContain('hunter2');
+      expect(roomManager.admitUser(room.id, 'listener-fid')).toBe('This room requires a password');
+      expect(roomManager.admitUser(room.id, 'listener-fid', { password: 'wrong' })).toBe('Incorrect room password');
+      expect(roomManager.admitUser(room.id, 'listener-fid', { password: 'hunter2' })).toBeUndefined();
+    });
+  });
+
+  describe('persistence', () => {
+    it('should restore active rooms as recovering', async () => {
+      const store = new MemoryRoomStore();
+      const original = new RoomManager({ store });
+      const room = original.createRoom(testUser, 'Persistent', ['music']);
+      original.joinRoom(room.id, 'test-listener');
+      original.raiseHand(room.id, 'test-listener');
+      original.addReaction(room.id, 'test-listener', 'clap');
+      original.closeRoom(original.createRoom({ fid: 'other-host' }, 'Closed').id);
+      await Promise.resolve();
+
+      const restarted = new RoomManager({ store });
+      const restored = await restarted.restore();
+
+      expect(restored.map(r => r.id)).toEqual([room.id]);
+      const restoredRoom = restarted.getRoom(room.id)!;
+      expect(restoredRoom.tags).toEqual(['music']);
+      expect(restoredRoom.speakers.has(testUser.fid)).toBe(true);
+      expect(restoredRoom.raisedHands.has('test-listener')).toBe(true);
+      expect(restoredRoom.reactions[0].type).toBe('clap');
+      expect(restoredRoom.recoveringUntil).toBeGreaterThan(Date.now());
+    });
+
+    it('should let only the host reclaim a recovering room', async () => {
+      const store = new MemoryRoomStore();
+      const room = new RoomManager({ store }).createRoom(testUser, 'Persistent');
+      await Promise.resolve();
+
+      const restarted = new RoomManager({ store });
+      await restarted.restore();
+
+      expect(restarted.reclaimRoom(room.id, 'someone-else')).toBe(false);
+      expect(restarted.reclaimRoom(room.id, testUser.fid)).toBe(true);
+      expect(restarted.getRoom(room.id)!.recoveringUntil).toBeUndefined();
+    });
+
+    it('should close rooms that are not reclaimed in time', async () => {
+      const store = new MemoryRoomStore();
+      const room = new RoomManager({ store }).createRoom(testUser, 'Persistent');
+      await Promise.resolve();
+
+      const restarted = new RoomManager({ store, recoveryGracePeriodMs: 10 });
+      await restarted.restore();
+
+      const expired = await new Promise<string>(resolve => restarted.once('recovery-expired', resolve));
+      expect(expired).toBe(room.id);
+      expect(restarted.listRooms()).toHaveLength(0);
+      expect(await store.load()).toHaveLength(0);
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,75 @@
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileRoomStore } from '../src/store/FileRoomStore';
+import { toStoredRoom, fromStoredRoom } from '../src/store/serialization';
+import { Room } from '../src/types/Room';
+
+const createRoom = (id: string): Room => ({
+  id,
+  name: `Room ${id}`,
+  tags: ['test'],
+  hostFid: 'host-fid',
+  speakers: new Set(['host-fid', 'speaker-fid']),
+  coHosts: new Set(['speaker-fid']),
+  listeners: new Set(['listener-fid']),
+  raisedHands: new Map([['listener-fid', 1710000000000]]),
+  invitations: new Map([['other-listener-fid', { fid: 'other-listener-fid', invitedBy: 'host-fid', timestamp: 1710000000000 }]]),
+  maxSpeakers: 10,
+  visibility: 'invite-only',
+  allowedFids: new Set(['listener-fid']),
+  inviteCodes: new Set(['invite-code']),
+  banned: new Set(['raider-fid']),
+  muted: new Set(['speaker-fid']),
+  muteLocked: new Set(['speaker-fid']),
+  reactionSet: ['fire', ':farcaster:'],
+  reactions: [{ type: 'fire', fid: 'listener-fid', timestamp: 1710000000000, speakerFid: 'host-fid' }],
+  reactionStats: { totals: { fire: 1 }, byReactor: { 'listener-fid': 1 }, bySpeaker: { 'host-fid': { fire: 1 } } },
+  messages: [{ id: 'message-1', fid: 'listener-fid', text: 'Hello', timestamp: 1710000000000 }],
+  active: true,
+  createdAt: 1710000000000
+});
+
+describe('serialization', () => {
+  it('should round-trip Set and Map fields through arrays', () => {
+    const room = createRoom('room-1');
+    const stored = toStoredRoom(room);
+
+    expect(stored.speakers).toEqual(['host-fid', 'speaker-fid']);
+    expect(JSON.parse(JSON.stringify(stored))).toEqual(stored);
+    expect(fromStoredRoom(stored)).toEqual(room);
+  });
+});
+
+describe('FileRoomStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'farclub-store-'));
+    filePath = join(dir, 'rooms.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    expect(await new FileRoomStore(filePath).load()).toEqual([]);
+  });
+
+  it('should persist rooms across instances', async () => {
+    const store = new FileRoomStore(filePath);
+    await store.load();
+    await Promise.all([
+      store.save(toStoredRoom(createRoom('room-1'))),
+      store.save(toStoredRoom(createRoom('room-2')))
+    ]);
+    await store.delete('room-1');
+
+    const reloaded = await new FileRoomStore(filePath).load();
+    expect(reloaded.map(room => room.id)).toEqual(['room-2']);
+    expect(fromStoredRoom(reloaded[0])).toEqual(createRoom('room-2'));
+    expect(JSON.parse(readFileSync(filePath, 'utf8'))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,67 @@
+import { ScheduleManager } from '../src/server/ScheduleManager';
+import { MemoryScheduleStore } from '../src/store/MemoryScheduleStore';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('ScheduleManager', () => {
+  let scheduleManager: ScheduleManager;
+
+  beforeEach(() => {
+    scheduleManager = new ScheduleManager();
+  });
+
+  it('should reject rooms without a name, a future start time or valid tags', () => {
+    expect(() => scheduleManager.schedule('host-fid', { name: '', startsAt: Date.now() + HOUR_MS })).toThrow('name');
+    expect(() => scheduleManager.schedule('host-fid', { name: 'Show', startsAt: Date.now() - 1 })).toThrow('future');
+    expect(() => scheduleManager.schedule('host-fid', { name: 'Show', startsAt: Date.now() + HOUR_MS, tags: 'music' as any }))
+      .toThrow('Tags must be a list of strings');
+  });
+
+  it('should list upcoming rooms soonest first and track RSVPs', () => {
+    const later = scheduleManager.schedule('host-fid', { name: 'Later', startsAt: Date.now() + 2 * HOUR_MS });
+    const sooner = scheduleManager.schedule('host-fid', { name: 'Sooner', startsAt: Date.now() + HOUR_MS });
+
+    scheduleManager.rsvp(later.id, 'listener-fid', true);
+    scheduleManager.rsvp(later.id, 'listener-fid', true);
+    scheduleManager.rsvp(later.id, 'other-fid', true);
+    scheduleManager.rsvp(later.id, 'other-fid', false);
+
+    expect(scheduleManager.listUpcoming().map(room => room.id)).toEqual([sooner.id, later.id]);
+    expect(later.rsvps).toEqual(['listener-fid']);
+    expect(scheduleManager.rsvp('unknown', 'listener-fid', true)).toBeUndefined();
+  });
+
+  it('should let only the host start a room and schedule the next weekly show', () => {
+    const startsAt = Date.now() + HOUR_MS;
+    const show = scheduleManager.schedule('host-fid', { name: 'Weekly', startsAt, recurrence: 'weekly' });
+    scheduleManager.rsvp(show.id, 'listener-fid', true);
+
+    expect(scheduleManager.start(show.id, 'listener-fid')).toBeUndefined();
+    expect(scheduleManager.start(show.id, 'host-fid')).toBe(show);
+
+    const [next] = scheduleManager.listUpcoming();
+    expect(next.id).not.toBe(show.id);
+    expect(next.startsAt).toBe(startsAt + 7 * 24 * HOUR_MS);
+    expect(next.rsvps).toEqual([]);
+  });
+
+  it('should let a room be claimed once while it goes live', () => {
+    const show = scheduleManager.schedule('host-fid', { name: 'Show', startsAt: Date.now() + HOUR_MS });
+
+    expect(scheduleManager.claim(show.id, 'listener-fid')).toBeUndefined();
+    expect(scheduleManager.claim(show.id, 'host-fid')).toBe(show);
+    expect(scheduleManager.claim(show.id, 'host-fid')).toBeUndefined();
+
+    scheduleManager.release(show.id);
+    expect(scheduleManager.claim(show.id, 'host-fid')).toBe(show);
+  });
+
+  it('should restore scheduled rooms from the store', async () => {
+    const store = new MemoryScheduleStore();
+    const room = new ScheduleManager(store).schedule('host-fid', { name: 'Show', startsAt: Date.now() + HOUR_MS });
+
+    const restored = new ScheduleManager(store);
+    await restored.restore();
+    expect(restored.get(room.id)?.name).toBe('Show');
+  });
+});
@@ -0,0 +1,37 @@
+import { SessionManager } from '../src/server/SessionManager';
+import { Session } from '../src/types/Session';
+
+describe('SessionManager', () => {
+  let sessionManager: SessionManager;
+
+  beforeEach(() => {
+    sessionManager = new SessionManager(20);
+  });
+
+  it('should only resume disconnected sessions', () => {
+    const session = sessionManager.createSession('test-user-1', 'room-1');
+
+    expect(sessionManager.resume(session.token)).toBeUndefined();
+
+    sessionManager.markDisconnected(session.token);
+    expect(sessionManager.resume(session.token)).toEqual({ token: session.token, fid: 'test-user-1', roomId: 'room-1', expiresAt: undefined });
+  });
+
+  it('should not resume ended sessions', () => {
+    const session = sessionManager.createSession('test-user-1', 'room-1');
+    sessionManager.markDisconnected(session.token);
+    sessionManager.endSession(session.token);
+
+    expect(sessionManager.resume(session.token)).toBeUndefined();
+  });
+
+  it('should expire sessions that are not resumed in time', async () => {
+    const session = sessionManager.createSession('test-user-1', 'room-1');
+    const expired = new Promise<Session>(resolve => sessionManager.once('session-expired', resolve));
+
+    sessionManager.markDisconnected(session.token);
+
+    expect((await expired).fid).toBe('test-user-1');
+    expect(sessionManager.resume(session.token)).toBeUndefined();
+  });
+});
@@ -3,18 +3,29 @@ import { io as Client } from 'socket.io-client';
 import { createServer } from 'http';
 import { SocketServer } from '../src/server/SocketServer';
 import { ReactionType } from '../src/types/Room';
+import { SignedMessageAuthenticator } from '../src/auth/SignedMessageAuthenticator';
+import { BlocklistMessageFilter } from '../src/chat/BlocklistMessageFilter';
+import { generateKeyPairSync, randomUUID, sign } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
 import { mock } from 'bun:test';
 
 // Mock mediasoup
 mock.module('mediasoup', () => {
   const mockRouter = {
+    id: 'test-router-id',
     rtpCapabilities: {},
+    canConsume: ({ producerId, rtpCapabilities }) => Array.isArray(rtpCapabilities?.codecs),
+    createAudioLevelObserver: async () => ({ on: () => {}, addProducer: async () => undefined }),
+    createActiveSpeakerObserver: async () => ({ on: () => {}, addProducer: async () => undefined }),
     createWebRtcTransport: async ({ listenIps }) => ({
       id: 'test-transport-id',
       iceParameters: { usernameFragment: 'test', password: 'test' },
       iceCandidates: [{ foundation: '1', port: 1234 }],
       dtlsParameters: { fingerprints: [{ algorithm: 'sha-256', value: 'test' }] },
+      connect: async ({ dtlsParameters }) => undefined,
       produce: async ({ kind, rtpParameters }) => ({
         id: 'test-producer-id',
         kind,
@@ -23,8 +34,9 @@ mock.module('mediasoup', () => {
         resume: async () => undefined,
         close: () => {}
       }),
-      consume: async ({ producerId, rtpCapabilities }) => ({
+      consume: async ({ producerId, rtpCapabilities, paused }) => ({
         id: 'test-consumer-id',
+        paused,
         kind: 'audio',
         rtpParameters: {
           codecs: [{
@@ -37,6 +49,8 @@ mock.module('mediasoup', () => {
         },
         type: 'simple',
         producerPaused: false,
+        on: () => {},
+        resume: async () => undefined,
         close: () => {}
       }),
       close: () => {}
@@ -45,6 +59,8 @@ mock.module('mediasoup', () => {
   };
 
   const mockWorker = {
+    pid: 1,
+    on: () => {},
     createRouter: async ({ mediaCodecs }) => mockRouter,
     close: () => {}
   };
@@ -61,24 +77,54 @@ mock.module('mediasoup', () => {
   };
 });
 
+// Local custody key pair shared by all test users
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const testFids = ['test-fid', 'host-fid', 'listener-fid'];
+
+/**
+ * Builds signed Sign-In-With-Farcaster style credentials for a test user
+ */
+const credentials = (fid: string) => {
+  const message = [
+    'localhost wants you to sign in with your Ethereum account:',
+    `Resources:\n- farcaster://fid/${fid}`,
+    `Nonce: ${randomUUID()}`,
+    `Issued At: ${new Date().toISOString()}`
+  ].join('\n');
+  return { fid, message, signature: sign(null, Buffer.from(message), privateKey).toString('base64') };
+};
+
 describe('SocketServer', () => {
   let httpServer: any;
   let socketServer: SocketServer;
   let io: Server;
   let clientSocket: any;
   let port: number;
+  const recordingsDirectory = mkdtempSync(join(tmpdir(), 'recordings-'));
 
-  beforeAll((done: () => void) => {
+  beforeAll(async () => {
     httpServer = createServer();
     io = new Server(httpServer);
-    socketServer = new SocketServer(io);
+    socketServer = new SocketServer(io, {
+      authenticator: new SignedMessageAuthenticator(new Map(testFids.map(fid => [fid, publicKey]))),
+      media: { numWorkers: 1 },
+      rooms: { maxRoomsPerHost: 100 },
+      hostGracePeriodMs: 50,
+      reactionBatchIntervalMs: 20,
+      lobbyUpdateIntervalMs: 20,
+      recording: { directory: recordingsDirectory },
+      messageFilter: new BlocklistMessageFilter(['spam']),
+      rateLimits: { 'create-room': { capacity: 100, refillPerSecond: 1 } }
+    });
+    await socketServer.init();
     port = 3001;
-    httpServer.listen(port, done);
+    await new Promise<void>(resolve => httpServer.listen(port, resolve));
   });
 
   afterAll(() => {
     io.close();
     httpServer.close();
+    rmSync(recordingsDirectory, { recursive: true, force: true });
   });
 
   beforeEach((done: () => void) => {
@@ -94,7 +140,7 @@ describe('SocketServer', () => {
     return new Promise<void>((done) => {
       const testFid = 'test-fid';
 
-      clientSocket.emit('authenticate', testFid);
+      clientSocket.emit('authenticate', credentials(testFid));
 
       clientSocket.on('authenticated', (response: any) => {
         expect(response.success).toBe(true);
@@ -103,12 +149,55 @@ describe('SocketServer', () => {
     });
   });
 
+  test('should reject forged credentials', () => {
+    return new Promise<void>((done) => {
+      const forged = { ...credentials('test-fid'), fid: 'host-fid' };
+
+      clientSocket.emit('authenticate', forged);
+
+      clientSocket.on('authenticated', (response: any) => {
+        expect(response.success).toBe(false);
+        expect(response.reason).toBe('Message does not match fid');
+        done();
+      });
+    });
+  });
+
+  test('should refuse handshakes with invalid credentials', () => {
+    return new Promise<void>((done) => {
+      const forged = { ...credentials('test-fid'), signature: Buffer.from('forged').toString('base64') };
+      const socket = Client(`http://localhost:${port}`, { auth: forged });
+
+      socket.on('connect_error', (error: Error) => {
+        expect(error.message).toBe('Invalid signature');
+        socket.close();
+        done();
+      });
+    });
+  });
+
+  test('should authenticate during the handshake', () => {
+    return new Promise<void>((done) => {
+      const socket = Client(`http://localhost:${port}`, { auth: credentials('host-fid') });
+
+      socket.on('connect', () => {
+        socket.emit('create-room', { name: 'Test Room' });
+      });
+
+      socket.on('joined-room', (data: any) => {
+        expect(data.room.hostFid).toBe('host-fid');
+        socket.close();
+        done();
+      });
+    });
+  });
+
   test('should create and join room', () => {
     return new Promise<void>((done) => {
       const testFid = 'test-fid';
 
-      clientSocket.emit('authenticate', testFid);
-      clientSocket.emit('create-room');
+      clientSocket.emit('authenticate', credentials(testFid));
+      clientSocket.emit('create-room', { name: 'Test Room' });
 
       clientSocket.on('joined-room', (data: any) => {
         expect(data.role).toBe('host');
@@ -123,8 +212,8 @@ describe('SocketServer', () => {
     return new Promise<void>((done) => {
       const testFid = 'test-fid';
 
-      clientSocket.emit('authenticate', testFid);
-      clientSocket.emit('create-room');
+      clientSocket.emit('authenticate', credentials(testFid));
+      clientSocket.emit('create-room', { name: 'Test Room' });
 
       let roomId: string;
 
@@ -133,7 +222,7 @@ describe('SocketServer', () => {
 
         // Create a second client to test hand raising
         const listener = Client(`http://localhost:${port}`);
-        listener.emit('authenticate', 'listener-fid');
+        listener.emit('authenticate', credentials('listener-fid'));
         listener.emit('join-room', roomId);
 
         listener.on('joined-room', () => {
@@ -154,16 +243,24 @@ describe('SocketServer', () => {
       const testFid = 'test-fid';
       const testReaction: ReactionType = 'like';
 
-      clientSocket.emit('authenticate', testFid);
-      clientSocket.emit('create-room');
+      clientSocket.emit('authenticate', credentials(testFid));
+      clientSocket.emit('create-room', { name: 'Test Room' });
 
-      clientSocket.on('joined-room', () => {
+      let roomId: string;
+
+      clientSocket.on('joined-room', (data: any) => {
+        roomId = data.room.id;
         clientSocket.emit('send-reaction', testReaction);
+        clientSocket.emit('send-reaction', testReaction);
+        clientSocket.emit('send-reaction', 'fire');
       });
 
-      clientSocket.on('reaction-received', (reaction: any) => {
-        expect(reaction.type).toBe(testReaction);
-        expect(reaction.fid).toBe(testFid);
+      clientSocket.on('reactions-batch', async (batch: any) => {
+        expect(batch.counts).toEqual({ [testReaction]: 2, fire: 1 });
+        expect(batch.totals).toEqual({ [testReaction]: 2, fire: 1 });
+
+        const room = (await socketServer.listRooms()).find(listed => listed.id === roomId);
+        expect(room?.topReactors).toEqual([{ fid: testFid, count: 3 }]);
         done();
       });
     });
@@ -174,8 +271,8 @@ describe('SocketServer', () => {
       const hostFid = 'host-fid';
       const listenerFid = 'listener-fid';
 
-      clientSocket.emit('authenticate', hostFid);
-      clientSocket.emit('create-room');
+      clientSocket.emit('authenticate', credentials(hostFid));
+      clientSocket.emit('create-room', { name: 'Test Room' });
 
       let roomId: string;
 
@@ -183,21 +280,340 @@ describe('SocketServer', () => {
         roomId = data.room.id;
 
         const listener = Client(`http://localhost:${port}`);
-        listener.emit('authenticate', listenerFid);
+        listener.emit('authenticate', credentials(listenerFid));
         listener.emit('join-room', roomId);
 
         listener.on('joined-room', () => {
           clientSocket.emit('promote-to-speaker', listenerFid);
         });
 
-        clientSocket.on('user-promoted', (data: any) => {
+        clientSocket.once('error', (error: any) => {
+          expect(error.message).toContain('raised');
+          listener.emit('raise-hand');
+        });
+
+        clientSocket.on('hand-raised', (data: any) => {
+          expect(data.raisedAt).toBeGreaterThan(0);
+          clientSocket.emit('promote-to-speaker', listenerFid);
+        });
+
+        clientSocket.on('user-promoted', async (data: any) => {
           expect(data.fid).toBe(listenerFid);
+          const audit = await socketServer.getAuditLog(roomId, { action: 'promote' });
+          expect(audit.map(entry => [entry.actorFid, entry.targetFid])).toEqual([[hostFid, listenerFid]]);
 
           // Test demotion
           clientSocket.emit('demote-speaker', listenerFid);
 
           clientSocket.on('user-demoted', (demotion: any) => {
             expect(demotion.fid).toBe(listenerFid);
+            clientSocket.emit('demote-speaker', listenerFid);
+          });
+
+          clientSocket.once('error', (error: any) => {
+            expect(error.message).toBe('User is not a speaker');
+            listener.close();
+            done();
+          });
+
+          listener.on('demoted', (notice: any) => {
+            expect(notice).toEqual({ roomId, by: hostFid });
+          });
+        });
+      });
+    });
+  });
+
+  test('should promote invited listeners only once they accept', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+      clientSocket.emit('create-room', { name: 'Test Room', maxSpeakers: 2 });
+
+      clientSocket.once('joined-room', (data: any) => {
+        expect(data.room.maxSpeakers).toBe(2);
+
+        const first = Client(`http://localhost:${port}`);
+        const second = Client(`http://localhost:${port}`);
+        first.emit('authenticate', credentials('listener-fid'));
+        first.emit('join-room', data.room.id);
+
+        first.on('joined-room', () => {
+          clientSocket.emit('invite-to-speak', 'listener-fid');
+        });
+
+        first.once('speaker-invitation', (invitation: any) => {
+          expect(invitation.invitedBy).toBe('host-fid');
+          first.emit('decline-speaker-invitation');
+        });
+
+        clientSocket.once('speaker-invitation-declined', (declined: any) => {
+          expect(declined.fid).toBe('listener-fid');
+          first.once('speaker-invitation', () => first.emit('accept-speaker-invitation'));
+          clientSocket.emit('invite-to-speak', 'listener-fid');
+        });
+
+        clientSocket.once('user-promoted', (promotion: any) => {
+          expect(promotion).toEqual({ fid: 'listener-fid', invitedBy: 'host-fid' });
+          second.emit('authenticate', credentials('test-fid'));
+          second.emit('join-room', data.room.id);
+        });
+
+        second.on('joined-room', () => {
+          clientSocket.emit('invite-to-speak', 'test-fid');
+        });
+
+        clientSocket.once('error', (error: any) => {
+          expect(error.message).toBe('Stage is full');
+          first.close();
+          second.close();
+          done();
+        });
+      });
+    });
+  });
+
+  test('should only accept reactions from the room\'s set', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('test-fid'));
+      clientSocket.emit('create-room', { name: 'Test Room', reactions: ['sparkle'] });
+
+      clientSocket.once('error', (error: any) => {
+        expect(error.message).toBe('Reactions not allowed: sparkle');
+        clientSocket.emit('create-room', { name: 'Test Room', reactions: ['fire', 'clap'] });
+      });
+
+      clientSocket.on('joined-room', (data: any) => {
+        expect(data.room.reactionSet).toEqual(['fire', 'clap']);
+        clientSocket.emit('send-reaction', 'like');
+
+        clientSocket.once('error', (error: any) => {
+          expect(error.message).toBe('Invalid reaction type');
+          done();
+        });
+      });
+    });
+  });
+
+  test('should start scheduled rooms and notify RSVP\'d users', () => {
+    return new Promise<void>((done) => {
+      const listener = Client(`http://localhost:${port}`);
+      listener.emit('authenticate', credentials('listener-fid'));
+
+      listener.once('authenticated', () => listener.emit('subscribe-lobby'));
+
+      listener.once('lobby-snapshot', () => {
+        clientSocket.emit('authenticate', credentials('host-fid'));
+        clientSocket.once('authenticated', () => {
+          clientSocket.emit('schedule-room', { name: 'Weekly Show', description: 'Every week', startsAt: Date.now() + 60000 });
+        });
+      });
+
+      listener.once('room-scheduled', (scheduled: any) => {
+        expect(socketServer.listUpcomingRooms().map(room => room.id)).toContain(scheduled.id);
+        listener.emit('rsvp-room', { roomId: scheduled.id });
+
+        listener.once('rsvp-updated', (rsvp: any) => {
+          expect(rsvp).toEqual({ roomId: scheduled.id, attending: true, rsvpCount: 1 });
+          clientSocket.emit('go-live', scheduled.id);
+        });
+
+        listener.once('room-starting', ({ room }: any) => {
+          expect(room).toMatchObject({ id: scheduled.id, name: 'Weekly Show', description: 'Every week', hostFid: 'host-fid' });
+          expect(socketServer.listUpcomingRooms().map(upcoming => upcoming.id)).not.toContain(scheduled.id);
+          listener.close();
+          done();
+        });
+      });
+    });
+  });
+
+  test('should open a scheduled room once when going live twice', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+
+      clientSocket.once('authenticated', () => {
+        const scheduled = socketServer.scheduleRoom('host-fid', { name: 'Launch', startsAt: Date.now() + 60000 });
+        clientSocket.emit('go-live', scheduled.id);
+        clientSocket.emit('go-live', scheduled.id);
+
+        const errors: string[] = [];
+        const joined: string[] = [];
+        clientSocket.on('error', (error: any) => errors.push(error.message));
+        clientSocket.on('joined-room', (data: any) => joined.push(data.room.id));
+
+        setTimeout(() => {
+          // Depending on timing, the second request finds the room claimed or already started
+          expect(joined).toEqual([scheduled.id]);
+          expect(errors.length).toBe(1);
+          expect(['Room is already going live', 'Only the host can start a scheduled room']).toContain(errors[0]);
+          expect(socketServer.listUpcomingRooms().map(room => room.id)).not.toContain(scheduled.id);
+          done();
+        }, 100);
+      });
+    });
+  });
+
+  test('should keep invite-only rooms out of listings and admit invite codes once', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+      clientSocket.emit('create-room', { name: 'Standup', visibility: 'invite-only' });
+
+      clientSocket.once('joined-room', async (data: any) => {
+        expect(data.room.visibility).toBe('invite-only');
+        expect((await socketServer.listRooms()).map(room => room.id)).not.toContain(data.room.id);
+        expect((await socketServer.listRooms('host-fid')).map(room => room.id)).toContain(data.room.id);
+        clientSocket.emit('create-invite-code');
+      });
+
+      clientSocket.once('invite-code-created', ({ roomId, code }: any) => {
+        const listener = Client(`http://localhost:${port}`);
+        listener.emit('authenticate', credentials('listener-fid'));
+        listener.emit('join-room', roomId);
+
+        listener.once('error', (error: any) => {
+          expect(error.message).toBe('This room is invite-only');
+          listener.emit('join-room', roomId, { inviteCode: code });
+        });
+
+        listener.once('joined-room', async (joined: any) => {
+          expect(joined.role).toBe('listener');
+          expect((await socketServer.listRooms('listener-fid')).map(room => room.id)).toContain(roomId);
+          listener.close();
+          done();
+        });
+      });
+    });
+  });
+
+  test('should send lobby updates for rooms with the subscribed tags', () => {
+    return new Promise<void>((done) => {
+      const subscriber = Client(`http://localhost:${port}`);
+      subscriber.emit('authenticate', credentials('test-fid'));
+      subscriber.emit('subscribe-lobby', { tags: ['standup'] });
+
+      subscriber.once('lobby-snapshot', (snapshot: any) => {
+        expect(snapshot.rooms).toEqual([]);
+        clientSocket.emit('authenticate', credentials('host-fid'));
+        clientSocket.emit('create-room', { name: 'Chatter', tags: ['random'] });
+        clientSocket.once('joined-room', () => {
+          clientSocket.emit('create-room', { name: 'Daily', tags: ['Standup'] });
+        });
+      });
+
+      subscriber.once('lobby-update', (first: any) => {
+        expect(first.added.map((room: any) => room.name)).toEqual(['Daily']);
+        expect(first.added[0]).not.toHaveProperty('listeners');
+
+        const listener = Client(`http://localhost:${port}`);
+        listener.emit('authenticate', credentials('listener-fid'));
+        listener.emit('join-room', first.added[0].id);
+
+        subscriber.once('lobby-update', (second: any) => {
+          expect(second.updated).toEqual([
+            { id: first.added[0].id, speakerCount: 1, listenerCount: 1, topSpeakers: ['host-fid'] }
+          ]);
+          listener.close();
+          subscriber.close();
+          done();
+        });
+      });
+    });
+  });
+
+  test('should create, describe and close rooms without a socket', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+
+      clientSocket.once('authenticated', async () => {
+        await expect(socketServer.createRoom('host-fid', '')).rejects.toThrow('Room name is required');
+        const created = await socketServer.createRoom('host-fid', 'Bot Room', ['bots']);
+
+        const listener = Client(`http://localhost:${port}`);
+        listener.emit('authenticate', credentials('listener-fid'));
+        listener.emit('join-room', created.id);
+
+        listener.once('joined-room', async () => {
+          expect(await socketServer.getParticipants(created.id)).toEqual([
+            { fid: 'host-fid', role: 'host', muted: false, muteLocked: false },
+            { fid: 'listener-fid', role: 'listener', muted: true, muteLocked: false }
+          ]);
+          expect((await socketServer.listUserRooms('listener-fid')).map(room => room.id)).toContain(created.id);
+          expect(await socketServer.closeRoom(created.id, 'listener-fid')).toBe(false);
+          expect(await socketServer.closeRoom(created.id, 'host-fid')).toBe(true);
+
+          // The host keeps reading the audit log once the room has closed
+          expect(await socketServer.getRole(created.id, 'host-fid')).toBe('host');
+          expect(await socketServer.getRole(created.id, 'listener-fid')).toBe('listener');
+          const audit = await socketServer.getAuditLog(created.id, { action: 'close-room' });
+          expect(audit.map(entry => entry.actorFid)).toEqual(['host-fid']);
+          listener.close();
+          done();
+        });
+
+        listener.once('room-closed', async () => {
+          expect(await socketServer.getRoom(created.id)).toBeUndefined();
+        });
+      });
+
+      clientSocket.once('room-created', (room: any) => {
+        expect(room.name).toBe('Bot Room');
+      });
+    });
+  });
+
+  test('should let sockets of a closed room follow the lobby', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('listener-fid'));
+
+      clientSocket.once('authenticated', async () => {
+        const created = await socketServer.createRoom('host-fid', 'Short Room');
+        clientSocket.emit('join-room', created.id);
+
+        clientSocket.once('joined-room', async () => {
+          expect(await socketServer.closeRoom(created.id, 'host-fid')).toBe(true);
+        });
+
+        clientSocket.once('room-closed', () => {
+          clientSocket.emit('subscribe-lobby');
+          clientSocket.once('lobby-snapshot', (snapshot: any) => {
+            expect(snapshot.rooms.map((room: any) => room.id)).not.toContain(created.id);
+            done();
+          });
+        });
+      });
+    });
+  });
+
+  test('should filter, broadcast and delete chat messages', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+      clientSocket.emit('create-room', { name: 'Test Room' });
+
+      clientSocket.once('joined-room', (data: any) => {
+        clientSocket.emit('send-message', { text: 'Welcome' });
+
+        clientSocket.once('message-received', (welcome: any) => {
+          const listener = Client(`http://localhost:${port}`);
+          listener.emit('authenticate', credentials('listener-fid'));
+          listener.emit('join-room', data.room.id);
+
+          listener.on('joined-room', (joined: any) => {
+            expect(joined.messages.map((message: any) => message.text)).toEqual(['Welcome']);
+            listener.emit('send-message', { text: 'Some spam here' });
+          });
+
+          listener.once('error', (error: any) => {
+            expect(error.message).toBe('Message contains blocked words');
+            listener.emit('send-message', { text: 'Thanks!', replyTo: welcome.id });
+          });
+
+          clientSocket.on('message-received', (reply: any) => {
+            expect(reply).toMatchObject({ fid: 'listener-fid', text: 'Thanks!', replyTo: welcome.id });
+            clientSocket.emit('delete-message', reply.id);
+          });
+
+          listener.on('message-deleted', (deleted: any) => {
+            expect(deleted.by).toBe('host-fid');
             listener.close();
             done();
           });
@@ -205,4 +621,365 @@ describe('SocketServer', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  test('should answer floods with rate-limited errors', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('listener-fid'));
+      clientSocket.on('authenticated', () => {
+        for (let i = 0; i < 11; i++) clientSocket.emit('send-reaction', 'like');
+      });
+
+      clientSocket.on('error', (error: any) => {
+        expect(error).toMatchObject({ code: 'rate-limited', event: 'send-reaction' });
+        expect(error.retryAfterMs).toBeGreaterThan(0);
+        done();
+      });
+    });
+  });
+
+  test('should return router capabilities', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('test-fid'));
+      clientSocket.emit('create-room', { name: 'Test Room' });
+
+      clientSocket.on('joined-room', () => {
+        clientSocket.emit('get-router-capabilities');
+      });
+
+      clientSocket.on('router-capabilities', (capabilities: any) => {
+        expect(capabilities).toEqual({});
+        done();
+      });
+    });
+  });
+
+  test('should announce new producers to the room', () => {
+    return new Promise<void>((done) => {
+      const hostFid = 'host-fid';
+
+      clientSocket.emit('authenticate', credentials(hostFid));
+      clientSocket.emit('create-room', { name: 'Test Room' });
+
+      clientSocket.on('joined-room', (data: any) => {
+        const listener = Client(`http://localhost:${port}`);
+        listener.emit('authenticate', credentials('listener-fid'));
+        listener.emit('join-room', data.room.id);
+
+        listener.on('joined-room', () => {
+          clientSocket.emit('create-transport');
+        });
+
+        clientSocket.on('transport-created', (transport: any) => {
+          clientSocket.emit('produce', { transportId: transport.id, rtpParameters: {} });
+        });
+
+        listener.on('new-producer', (producer: any) => {
+          expect(producer.fid).toBe(hostFid);
+          expect(producer.producerId).toBe('test-producer-id');
+          listener.close();
+          done();
+        });
+      });
+    });
+  });
+
+  test('should reject produce from listeners', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+      clientSocket.emit('create-room', { name: 'Test Room' });
+
+      clientSocket.on('joined-room', (data: any) => {
+        const listener = Client(`http://localhost:${port}`);
+        listener.emit('authenticate', credentials('listener-fid'));
+        listener.emit('join-room', data.room.id);
+
+        listener.on('joined-room', () => {
+          listener.emit('produce', { transportId: 'test-transport-id', rtpParameters: {} });
+        });
+
+        listener.on('error', (error: any) => {
+          expect(error.message).toBe('Only speakers can produce audio');
+          listener.close();
+          done();
+        });
+      });
+    });
+  });
+
+  test('should transfer hosting on request', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+      clientSocket.emit('create-room', { name: 'Test Room' });
+
+      clientSocket.on('joined-room', (data: any) => {
+        const listener = Client(`http://localhost:${port}`);
+        listener.emit('authenticate', credentials('listener-fid'));
+        listener.emit('join-room', data.room.id);
+
+        listener.on('joined-room', () => {
+          clientSocket.emit('transfer-host', 'listener-fid');
+        });
+
+        listener.on('host-changed', (change: any) => {
+          expect(change).toEqual({ fid: 'listener-fid', previousFid: 'host-fid', reason: 'transferred' });
+          listener.close();
+          done();
+        });
+      });
+    });
+  });
+
+  test('should remove users who leave the room', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+      clientSocket.emit('create-room', { name: 'Test Room' });
+
+      clientSocket.on('joined-room', (data: any) => {
+        const listener = Client(`http://localhost:${port}`);
+        listener.emit('authenticate', credentials('listener-fid'));
+        listener.emit('join-room', data.room.id);
+
+        listener.on('joined-room', () => {
+          listener.emit('leave-room');
+        });
+
+        listener.on('left-room', async ({ roomId }: any) => {
+          expect(roomId).toBe(data.room.id);
+          const rooms = await socketServer.listRooms();
+          expect(rooms.find(room => room.id === roomId)?.listeners).not.toContain('listener-fid');
+          listener.close();
+          done();
+        });
+      });
+    });
+  });
+
+  test('should leave the previous room when switching rooms', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+      clientSocket.emit('create-room', { name: 'First Room' });
+
+      clientSocket.once('joined-room', (first: any) => {
+        clientSocket.emit('create-room', { name: 'Second Room' });
+
+        clientSocket.once('joined-room', async () => {
+          const rooms = await socketServer.listRooms();
+          expect(rooms.find(room => room.id === first.room.id)).toBeUndefined();
+          done();
+        });
+      });
+    });
+  });
+
+  test('should announce recording state to the room', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+      clientSocket.emit('create-room', { name: 'Test Room' });
+
+      clientSocket.on('joined-room', (data: any) => {
+        const listener = Client(`http://localhost:${port}`);
+        listener.emit('authenticate', credentials('listener-fid'));
+        listener.emit('join-room', data.room.id);
+
+        listener.on('joined-room', () => {
+          listener.emit('start-recording');
+        });
+
+        listener.on('error', (error: any) => {
+          expect(error.message).toBe('Only the host can record the room');
+          clientSocket.emit('start-recording');
+        });
+
+        listener.on('recording-state', (state: any) => {
+          expect(state.roomId).toBe(data.room.id);
+          expect(state.recording).toBe(true);
+          clientSocket.emit('stop-recording');
+          listener.close();
+          done();
+        });
+      });
+    });
+  });
+
+  test('should keep banned users out of the room', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+      clientSocket.emit('create-room', { name: 'Test Room' });
+
+      clientSocket.on('joined-room', (data: any) => {
+        const listener = Client(`http://localhost:${port}`);
+        listener.emit('authenticate', credentials('listener-fid'));
+        listener.emit('join-room', data.room.id);
+
+        listener.once('joined-room', () => {
+          clientSocket.emit('ban-user', 'listener-fid');
+        });
+
+        listener.on('banned', (ban: any) => {
+          expect(ban).toEqual({ roomId: data.room.id, by: 'host-fid' });
+          listener.emit('join-room', data.room.id);
+        });
+
+        listener.on('error', (error: any) => {
+          expect(error.message).toBe('You are banned from this room');
+          listener.close();
+          done();
+        });
+      });
+    });
+  });
+
+  test('should stop force-muted speakers from unmuting', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+      clientSocket.emit('create-room', { name: 'Test Room' });
+
+      clientSocket.on('joined-room', (data: any) => {
+        const speaker = Client(`http://localhost:${port}`);
+        speaker.emit('authenticate', credentials('listener-fid'));
+        speaker.emit('join-room', data.room.id);
+
+        speaker.on('joined-room', () => {
+          speaker.emit('raise-hand');
+        });
+
+        clientSocket.on('hand-raised', () => {
+          clientSocket.emit('promote-to-speaker', 'listener-fid');
+        });
+
+        clientSocket.on('user-promoted', () => {
+          clientSocket.emit('mute-user', 'listener-fid');
+        });
+
+        speaker.on('force-muted', (mute: any) => {
+          expect(mute.locked).toBe(true);
+          speaker.emit('toggle-mute', false);
+        });
+
+        speaker.on('error', (error: any) => {
+          expect(error.message).toBe('You were muted by a moderator');
+          speaker.close();
+          done();
+        });
+      });
+    });
+  });
+
+  test('should resume a dropped session on a new socket', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+      clientSocket.emit('create-room', { name: 'Test Room' });
+
+      clientSocket.on('joined-room', (data: any) => {
+        const listener = Client(`http://localhost:${port}`);
+        listener.emit('authenticate', credentials('listener-fid'));
+        listener.emit('join-room', data.room.id);
+
+        listener.once('joined-room', ({ sessionToken }: any) => {
+          expect(typeof sessionToken).toBe('string');
+          listener.close();
+
+          clientSocket.once('presence-changed', (presence: any) => {
+            expect(presence).toEqual({ fid: 'listener-fid', state: 'reconnecting' });
+
+            const resumed = Client(`http://localhost:${port}`);
+            resumed.emit('resume-session', { token: sessionToken });
+
+            resumed.on('session-resumed', (session: any) => {
+              expect(session.role).toBe('listener');
+              expect(session.room.id).toBe(data.room.id);
+              resumed.close();
+              done();
+            });
+          });
+        });
+      });
+    });
+  });
+
+  test('should refuse unknown session tokens', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('resume-session', { token: 'unknown' });
+
+      clientSocket.on('session-resume-failed', (failure: any) => {
+        expect(failure.reason).toBe('Session expired or unknown');
+        done();
+      });
+    });
+  });
+
+  test('should refuse to resume a session without a token', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('resume-session');
+
+      clientSocket.on('session-resume-failed', (failure: any) => {
+        expect(failure.reason).toBe('Session token is required');
+        done();
+      });
+    });
+  });
+
+  test('should refuse moderation without a target', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+      clientSocket.emit('create-room', { name: 'Test Room' });
+
+      clientSocket.once('joined-room', () => {
+        clientSocket.emit('ban-user');
+        clientSocket.once('error', (error: any) => {
+          expect(error).toEqual({ message: 'Invalid request', event: 'ban-user' });
+          done();
+        });
+      });
+    });
+  });
+
+  test('should report malformed payloads instead of failing', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('test-fid'));
+      clientSocket.once('authenticated', () => {
+        clientSocket.emit('create-room', null);
+        clientSocket.emit('join-room', { id: 'not-an-id' });
+      });
+
+      const errors: any[] = [];
+      clientSocket.on('error', (error: any) => {
+        errors.push(error);
+        if (errors.length < 2) return;
+        expect(errors).toEqual([
+          { message: 'Invalid request', event: 'create-room' },
+          { message: 'Invalid request', event: 'join-room' }
+        ]);
+        expect(clientSocket.connected).toBe(true);
+        done();
+      });
+    });
+  });
+
+  test('should hand the room to a co-host after the host disconnects', () => {
+    return new Promise<void>((done) => {
+      clientSocket.emit('authenticate', credentials('host-fid'));
+      clientSocket.emit('create-room', { name: 'Test Room' });
+
+      clientSocket.on('joined-room', (data: any) => {
+        const listener = Client(`http://localhost:${port}`);
+        listener.emit('authenticate', credentials('listener-fid'));
+        listener.emit('join-room', data.room.id);
+
+        listener.on('joined-room', () => {
+          clientSocket.emit('add-co-host', 'listener-fid');
+        });
+
+        listener.on('co-host-added', () => {
+          clientSocket.close();
+        });
+
+        listener.on('host-changed', (change: any) => {
+          expect(change).toEqual({ fid: 'listener-fid', previousFid: 'host-fid', reason: 'host-disconnected' });
+          listener.close();
+          done();
+        });
+      });
+    });
+  });
+});